@@ -5,9 +5,13 @@ import { FormKey } from '../useForm';
 import { withRefCapture } from '../utils/common';
 import { FormIdAttr } from '../constants';
 
+export function getErrorMessageId(inputId: string) {
+  return `${inputId}-r`;
+}
+
 export function createErrorProps(inputId: MaybeRefOrGetter<string>): Ref<Simplify<WithId<AriaErrorMessageProps>>> {
   return computed(() => ({
-    id: `${toValue(inputId)}-r`,
+    id: getErrorMessageId(toValue(inputId)),
     'aria-live': 'polite',
     'aria-atomic': true,
   }));
@@ -1,18 +1,36 @@
 import { computed, shallowRef, toValue } from 'vue';
 import { getSiteLocale } from './i18n/getSiteLocale';
 import { merge } from '../../shared/src';
-import { Reactivify } from './types';
+import { Arrayable, ErrorDisplayPolicy, Reactivify, ValidationTrigger } from './types';
+import type { FormDataSerializationOptions } from './utils/formData';
+import type { FormPlugin } from './useForm/formPlugins';
 
 interface Config {
   locale: string;
   detectDirection: boolean;
   disableHtmlValidation: boolean;
+  validateOn: Arrayable<ValidationTrigger>;
+  revalidateOn: Arrayable<ValidationTrigger> | undefined;
+  errorDisplay: ErrorDisplayPolicy;
+  formData: FormDataSerializationOptions;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  plugins: FormPlugin<any, any>[];
 }
 
-const currentConfig = shallowRef<Reactivify<Config>>({
+const currentConfig = shallowRef<Reactivify<Config, 'errorDisplay'>>({
   locale: getSiteLocale(),
   detectDirection: true,
   disableHtmlValidation: false,
+  validateOn: ['change', 'blur'],
+  revalidateOn: undefined,
+  errorDisplay: 'touched',
+  formData: {
+    keyStyle: 'brackets',
+    nulls: 'empty',
+    booleans: 'string',
+    dates: 'iso',
+  },
+  plugins: [],
 });
 
 const evaluatedConfig = computed(() => {
@@ -20,7 +38,8 @@ const evaluatedConfig = computed(() => {
 
   return Object.fromEntries(
     Object.entries(config).map(([key, value]) => {
-      if (key === 'validation') {
+      // Error display policies can be functions, so they must not be evaluated as getters.
+      if (key === 'validation' || key === 'errorDisplay') {
         return [key, value] as const;
       }
 
@@ -29,7 +48,7 @@ const evaluatedConfig = computed(() => {
   ) as unknown as Config;
 });
 
-export function configure(config: Partial<Reactivify<Config>>) {
+export function configure(config: Partial<Reactivify<Config, 'errorDisplay'>>) {
   currentConfig.value = merge({ ...currentConfig.value }, config);
 }
 
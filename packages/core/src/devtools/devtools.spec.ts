@@ -0,0 +1,142 @@
+import { render } from '@testing-library/vue';
+import { renderSetup } from '@test-utils/index';
+import { useForm } from '../useForm';
+import { useFormField } from '../useFormField';
+
+const api = vi.hoisted(() => {
+  const handlers: Record<string, (payload: any) => void> = {};
+
+  return {
+    handlers,
+    addInspector: vi.fn(),
+    addTimelineLayer: vi.fn(),
+    addTimelineEvent: vi.fn(),
+    sendInspectorTree: vi.fn(),
+    sendInspectorState: vi.fn(),
+    now: () => 0,
+    on: {
+      getInspectorTree: (handler: (payload: any) => void) => {
+        handlers.tree = handler;
+      },
+      getInspectorState: (handler: (payload: any) => void) => {
+        handlers.state = handler;
+      },
+    },
+  };
+});
+
+vi.mock('@vue/devtools-api', () => ({
+  setupDevtoolsPlugin: vi.fn((_: unknown, setup: (api: unknown) => void) => setup(api)),
+}));
+
+const devtoolsWindow = window as Window & { __VUE_DEVTOOLS_GLOBAL_HOOK__?: unknown };
+
+beforeEach(() => {
+  devtoolsWindow.__VUE_DEVTOOLS_GLOBAL_HOOK__ = { emit: vi.fn(), on: vi.fn() };
+});
+
+afterEach(() => {
+  delete devtoolsWindow.__VUE_DEVTOOLS_GLOBAL_HOOK__;
+});
+
+function getTimelineTitles() {
+  return api.addTimelineEvent.mock.calls.map(([{ event }]) => event.title);
+}
+
+test('registers the inspector and timeline layer', async () => {
+  await renderSetup(() => useForm({ id: 'setup-form' }));
+
+  expect(api.addInspector).toHaveBeenCalledWith(expect.objectContaining({ id: 'formwerk-inspector' }));
+  expect(api.addTimelineLayer).toHaveBeenCalledWith(expect.objectContaining({ id: 'formwerk-timeline' }));
+});
+
+test('lists forms and their state in the inspector', async () => {
+  const form = await renderSetup(() => useForm({ id: 'inspected-form', initialValues: { name: 'foo', age: 20 } }));
+  form.context.setFieldDisabled('age', true);
+  form.setErrors('name', 'Required');
+
+  const tree = { inspectorId: 'formwerk-inspector', filter: 'inspected', rootNodes: [] as any[] };
+  api.handlers.tree(tree);
+  expect(tree.rootNodes).toEqual([
+    {
+      id: expect.any(String),
+      label: 'inspected-form',
+      tags: [expect.objectContaining({ label: 'Invalid' }), expect.objectContaining({ label: '1 disabled' })],
+    },
+  ]);
+
+  const state = { inspectorId: 'formwerk-inspector', nodeId: tree.rootNodes[0].id, state: {} as any };
+  api.handlers.state(state);
+  expect(state.state.Form).toContainEqual({ key: 'disabled paths', value: ['age'] });
+  expect(state.state.State).toContainEqual({ key: 'values', value: { name: 'foo', age: 20 } });
+  expect(state.state.State).toContainEqual({ key: 'errors', value: { name: ['Required'] } });
+});
+
+test('lists forms that share the same id separately', async () => {
+  const first = await renderSetup(() => useForm({ id: 'shared-form', initialValues: { name: 'first' } }));
+  const second = await renderSetup(() => useForm({ id: 'shared-form', initialValues: { name: 'second' } }));
+  second.setErrors('name', 'Required');
+
+  const tree = { inspectorId: 'formwerk-inspector', filter: 'shared', rootNodes: [] as any[] };
+  api.handlers.tree(tree);
+  expect(tree.rootNodes).toHaveLength(2);
+  expect(tree.rootNodes[0].id).not.toBe(tree.rootNodes[1].id);
+
+  const values = tree.rootNodes.map(node => {
+    const state = { inspectorId: 'formwerk-inspector', nodeId: node.id, state: {} as any };
+    api.handlers.state(state);
+
+    return state.state.State.find((item: { key: string }) => item.key === 'values').value;
+  });
+  expect(values).toEqual([first.values, second.values]);
+});
+
+test('records transactions, validations and submits on the timeline', async () => {
+  api.addTimelineEvent.mockClear();
+  const { form } = await renderSetup(
+    () => {
+      return { form: useForm({ id: 'timeline-form' }) };
+    },
+    () => {
+      useFormField({ path: 'name', initialValue: 'foo' });
+
+      return {};
+    },
+  );
+
+  await form.handleSubmit(() => 'ok')();
+
+  expect(getTimelineTitles()).toEqual(['Transactions', 'Validate', 'Submit', 'Submitted']);
+  expect(api.addTimelineEvent.mock.calls[0][0].event.data).toEqual({
+    form: 'timeline-form',
+    transactions: [expect.objectContaining({ kind: 'INIT_PATH', path: 'name', value: 'foo' })],
+  });
+});
+
+test('removes forms from the inspector when unmounted', async () => {
+  const { unmount } = render({
+    setup: () => {
+      useForm({ id: 'removed-form' });
+
+      return {};
+    },
+    template: '<div></div>',
+  });
+  unmount();
+
+  const tree = { inspectorId: 'formwerk-inspector', filter: 'removed', rootNodes: [] as any[] };
+  api.handlers.tree(tree);
+  expect(tree.rootNodes).toEqual([]);
+});
+
+test('does not register forms when the devtools are not installed', async () => {
+  delete devtoolsWindow.__VUE_DEVTOOLS_GLOBAL_HOOK__;
+  api.addTimelineEvent.mockClear();
+  const form = await renderSetup(() => useForm({ id: 'uninspected-form' }));
+  await form.handleSubmit(() => 'ok')();
+
+  const tree = { inspectorId: 'formwerk-inspector', filter: 'uninspected', rootNodes: [] as any[] };
+  api.handlers.tree(tree);
+  expect(tree.rootNodes).toEqual([]);
+  expect(api.addTimelineEvent).not.toHaveBeenCalled();
+});
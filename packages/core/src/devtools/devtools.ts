@@ -0,0 +1,241 @@
+import { App, getCurrentInstance, Ref, watch } from 'vue';
+import {
+  App as DevtoolsApp,
+  CustomInspectorNode,
+  DevtoolsPluginApi,
+  PluginDescriptor,
+  setupDevtoolsPlugin,
+} from '@vue/devtools-api';
+import { DirtySchema, DisabledSchema, ErrorsSchema, FormObject, TouchedSchema } from '../types';
+import type { FormPlugin } from '../useForm/formPlugins';
+import type { FormTransaction } from '../useForm/useFormTransactions';
+import { debounce, isSSR, tryOnScopeDispose } from '../utils/common';
+
+const INSPECTOR_ID = 'formwerk-inspector';
+const TIMELINE_ID = 'formwerk-timeline';
+
+const COLORS = {
+  error: 0xbd4b4b,
+  success: 0x06d77b,
+  unknown: 0x54436b,
+  white: 0xffffff,
+  black: 0x000000,
+  purple: 0xb980f0,
+  orange: 0xf5a962,
+  gray: 0xbbbfca,
+};
+
+const TRANSACTION_NAMES = ['DESTROY_PATH', 'UNSET_PATH', 'SET_PATH', 'INIT_PATH'];
+
+export interface DevtoolsFormState {
+  id: string;
+  values: FormObject;
+  touched: TouchedSchema<FormObject>;
+  dirty: DirtySchema<FormObject>;
+  disabled: DisabledSchema<FormObject>;
+  errors: Ref<ErrorsSchema<FormObject>>;
+  submitErrors: Ref<ErrorsSchema<FormObject>>;
+}
+
+export interface DevtoolsFormHandle {
+  /**
+   * A plugin that records validation runs and submissions on the timeline.
+   */
+  plugin: FormPlugin;
+  /**
+   * Records the transactions committed in a single tick on the timeline.
+   */
+  onTransactionsCommit(transactions: FormTransaction<FormObject>[]): void;
+}
+
+let API: DevtoolsPluginApi<Record<string, unknown>> | undefined;
+const setupApps = new WeakSet<App>();
+// Forms are keyed by a per-instance id since several forms can share the same `id`.
+const forms = new Map<string, DevtoolsFormState>();
+let formUid = 0;
+
+const refreshInspector = debounce(100, () => {
+  API?.sendInspectorTree(INSPECTOR_ID);
+  API?.sendInspectorState(INSPECTOR_ID);
+});
+
+/**
+ * The devtools inject their hook before any app code runs, so forms mounted without it are never inspected.
+ */
+function hasDevtoolsHook() {
+  return !isSSR && !!(window as Window & { __VUE_DEVTOOLS_GLOBAL_HOOK__?: unknown }).__VUE_DEVTOOLS_GLOBAL_HOOK__;
+}
+
+function installDevtoolsPlugin(app: App) {
+  if (setupApps.has(app)) {
+    return;
+  }
+
+  setupApps.add(app);
+  const descriptor: PluginDescriptor = {
+    id: 'formwerk-devtools-plugin',
+    label: 'Formwerk',
+    packageName: '@formwerk/core',
+    homepage: 'https://formwerk.dev',
+    app: app as DevtoolsApp,
+  };
+
+  setupDevtoolsPlugin(descriptor, api => {
+    API = api as DevtoolsPluginApi<Record<string, unknown>>;
+
+    api.addInspector({
+      id: INSPECTOR_ID,
+      icon: 'rule',
+      label: 'formwerk',
+      noSelectionText: 'Select a form to inspect its state',
+      treeFilterPlaceholder: 'Search forms',
+    });
+
+    api.addTimelineLayer({
+      id: TIMELINE_ID,
+      label: 'Formwerk',
+      color: COLORS.purple,
+    });
+
+    api.on.getInspectorTree(payload => {
+      if (payload.inspectorId !== INSPECTOR_ID) {
+        return;
+      }
+
+      const filter = payload.filter?.toLowerCase() ?? '';
+      payload.rootNodes = [...forms.entries()]
+        .filter(([, form]) => form.id.toLowerCase().includes(filter))
+        .map(([nodeId, form]) => buildFormNode(nodeId, form));
+    });
+
+    api.on.getInspectorState(payload => {
+      if (payload.inspectorId !== INSPECTOR_ID) {
+        return;
+      }
+
+      const form = forms.get(payload.nodeId);
+      if (!form) {
+        return;
+      }
+
+      payload.state = {
+        Form: [
+          { key: 'id', value: form.id },
+          { key: 'disabled paths', value: getDisabledPaths(form) },
+        ],
+        State: [
+          { key: 'values', value: form.values },
+          { key: 'touched', value: form.touched },
+          { key: 'dirty', value: form.dirty },
+          { key: 'errors', value: form.errors.value },
+          { key: 'submitErrors', value: form.submitErrors.value },
+        ],
+      };
+    });
+  });
+}
+
+function getDisabledPaths(form: DevtoolsFormState) {
+  return Object.entries(form.disabled)
+    .filter(([, v]) => !!v)
+    .map(([k]) => k);
+}
+
+function hasErrors(errors: ErrorsSchema<FormObject>) {
+  return Object.values(errors).some(messages => !!messages?.length);
+}
+
+function buildFormNode(nodeId: string, form: DevtoolsFormState): CustomInspectorNode {
+  const isValid = !hasErrors(form.errors.value);
+  const tags = [
+    {
+      label: isValid ? 'Valid' : 'Invalid',
+      textColor: COLORS.white,
+      backgroundColor: isValid ? COLORS.success : COLORS.error,
+    },
+  ];
+
+  const disabledPaths = getDisabledPaths(form);
+  if (disabledPaths.length) {
+    tags.push({
+      label: `${disabledPaths.length} disabled`,
+      textColor: COLORS.black,
+      backgroundColor: COLORS.gray,
+    });
+  }
+
+  return {
+    id: nodeId,
+    label: form.id,
+    tags,
+  };
+}
+
+function addTimelineEvent(title: string, data: Record<string, unknown>, logType?: 'default' | 'warning' | 'error') {
+  API?.addTimelineEvent({
+    layerId: TIMELINE_ID,
+    event: {
+      time: API.now(),
+      title,
+      data,
+      logType,
+    },
+  });
+}
+
+/**
+ * Registers a form with the devtools inspector and timeline, this is a no-op outside of development or when the devtools are not installed.
+ */
+export function registerFormWithDevtools(form: DevtoolsFormState): DevtoolsFormHandle | undefined {
+  const vm = getCurrentInstance();
+  // Server rendered forms are never inspected, and keeping them around would leak them across requests.
+  // Without the devtools the plugin would only make submissions slower than in production, so it is skipped as well.
+  if (!__DEV__ || !hasDevtoolsHook() || !vm) {
+    return undefined;
+  }
+
+  installDevtoolsPlugin(vm.appContext.app);
+  const nodeId = `form-${++formUid}`;
+  forms.set(nodeId, form);
+  refreshInspector();
+
+  const stopWatch = watch(
+    () => [form.values, form.touched, form.dirty, form.disabled, form.errors.value, form.submitErrors.value],
+    refreshInspector,
+    { deep: true },
+  );
+
+  tryOnScopeDispose(() => {
+    stopWatch();
+    forms.delete(nodeId);
+    refreshInspector();
+  });
+
+  return {
+    plugin: {
+      name: 'formwerk-devtools',
+      onValidate: result => {
+        addTimelineEvent(
+          'Validate',
+          { form: form.id, isValid: result.isValid, errors: result.errors },
+          result.isValid ? 'default' : 'warning',
+        );
+      },
+      beforeSubmit: data => {
+        addTimelineEvent('Submit', { form: form.id, values: data.toObject() });
+      },
+      afterSubmit: (_, result) => {
+        addTimelineEvent('Submitted', { form: form.id, result });
+      },
+      onSubmitError: error => {
+        addTimelineEvent('Submit failed', { form: form.id, error }, 'error');
+      },
+    },
+    onTransactionsCommit: transactions => {
+      addTimelineEvent('Transactions', {
+        form: form.id,
+        transactions: transactions.map(({ kind, ...tr }) => ({ kind: TRANSACTION_NAMES[kind], ...tr })),
+      });
+    },
+  };
+}
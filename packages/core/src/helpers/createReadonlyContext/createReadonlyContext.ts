@@ -0,0 +1,23 @@
+import { InjectionKey, MaybeRefOrGetter, Ref, computed, inject, provide, toValue } from 'vue';
+
+interface ReadonlyContext {
+  isReadonly: Ref<boolean>;
+}
+
+const ReadonlyContextKey: InjectionKey<ReadonlyContext> = Symbol('readonlyContextKey');
+
+/**
+ * Create a readonly context, readonly fields keep their values and stay focusable but cannot be edited.
+ * @param isReadonly - The readonly state.
+ * @returns The readonly state.
+ */
+export function createReadonlyContext(isReadonly?: MaybeRefOrGetter<boolean | undefined>) {
+  const parentContext = inject(ReadonlyContextKey, null);
+  const context: ReadonlyContext = {
+    isReadonly: computed(() => parentContext?.isReadonly.value || toValue(isReadonly) || false),
+  };
+
+  provide(ReadonlyContextKey, context);
+
+  return context.isReadonly;
+}
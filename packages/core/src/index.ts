@@ -18,10 +18,15 @@ export * from './config';
 export * from './useForm';
 export * from './useFormGroup';
 export * from './useFormRepeater';
+export * from './useFormWizard';
+export * from './useFormQuerySync';
+export * from './useErrorSummary';
 export * from './validation';
 export * from './i18n/useLocale';
 export { version } from './constants';
 export { normalizePath } from './utils/path';
+export type { JSONPatchOperation } from './utils/patch';
+export { fromFormData, type FormDataKeyStyle, type FormDataSerializationOptions } from './utils/formData';
 
 // Internals should export types only
 export type * from './useSpinButton';
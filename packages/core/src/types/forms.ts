@@ -8,6 +8,13 @@ export type StandardIssue = StandardSchemaV1.Issue;
 
 export type StandardSchema<TInput = unknown, TOutput = TInput> = StandardSchemaV1<TInput, TOutput>;
 
+/**
+ * Passed to field schemas as a second `validate` argument, the signal is aborted once a newer validation starts.
+ */
+export interface FieldValidateOptions {
+  signal: AbortSignal;
+}
+
 export type GenericFormSchema = StandardSchema<FormObject>;
 
 export type FormSchema<TInput extends FormObject = FormObject, TOutput = TInput> = StandardSchema<TInput, TOutput>;
@@ -50,3 +57,39 @@ export interface FormValidationResult<TOutput extends FormObject = FormObject> e
 }
 
 export type AnyValidationResult = GroupValidationResult | ValidationResult;
+
+/**
+ * The interaction that causes a field to validate, `submit` defers validation until the form is submitted.
+ */
+export type ValidationTrigger = 'input' | 'change' | 'blur' | 'submit';
+
+export interface ErrorDisplayState {
+  /**
+   * Whether the field was touched.
+   */
+  isTouched: boolean;
+  /**
+   * Whether the field value differs from its original value.
+   */
+  isDirty: boolean;
+  /**
+   * Whether the form was submitted at least once, regardless of the submission outcome.
+   */
+  isSubmitAttempted: boolean;
+}
+
+/**
+ * When a field error should be displayed.
+ * - `touched`: Once the field is touched.
+ * - `dirty`: Once the field value is changed.
+ * - `submitted`: Once the form was submitted.
+ * - `touched-or-submitted`: Once the field is touched or the form was submitted.
+ * - `always`: As soon as the field has an error.
+ */
+export type ErrorDisplayPolicy =
+  | 'touched'
+  | 'dirty'
+  | 'submitted'
+  | 'touched-or-submitted'
+  | 'always'
+  | ((state: ErrorDisplayState) => boolean);
@@ -197,6 +197,7 @@ describe('validation', () => {
     });
 
     await fireEvent.invalid(screen.getByLabelText('First'));
+    await fireEvent.blur(screen.getByLabelText('First'));
     await flush();
     expect(screen.getByLabelText('First')).toHaveErrorMessage('Constraints not satisfied');
 
@@ -7,6 +7,8 @@ import {
   Reactivify,
   RovingTabIndex,
   StandardSchema,
+  Arrayable,
+  ValidationTrigger,
 } from '../types';
 import { useLabel, useErrorMessage } from '../a11y';
 import { CheckboxGroupContext, CheckboxGroupKey } from './useCheckboxGroup';
@@ -75,6 +77,21 @@ export interface CheckboxProps<TValue = string> {
    */
   schema?: StandardSchema<TValue>;
 
+  /**
+   * Paths of other fields that should trigger this field's validation when their values change.
+   */
+  dependsOn?: string[];
+
+  /**
+   * The interactions that validate the field before the form is submitted, overrides the form and global settings.
+   */
+  validateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The interactions that validate the field after the form was submitted, defaults to `validateOn`.
+   */
+  revalidateOn?: Arrayable<ValidationTrigger>;
+
   /**
    * Whether HTML5 validation should be disabled for this checkbox.
    */
@@ -106,16 +123,18 @@ export function useCheckbox<TValue = string>(
   const getFalseValue = () => (toValue(props.falseValue) as TValue) ?? (false as TValue);
   const group: CheckboxGroupContext<TValue> | null = toValue(props.standalone) ? null : inject(CheckboxGroupKey, null);
   const inputEl = elementRef || ref<HTMLElement>();
-  const field = useCheckboxField(props);
+  const field = useCheckboxField(props, inputId);
   if (!group) {
     useInputValidity({
       inputEl,
       field,
       events: ['blur', 'click', ['keydown', e => hasKeyCode(e, 'Space')]],
       disableHtmlValidation: props.disableHtmlValidation,
+      validateOn: props.validateOn,
+      revalidateOn: props.revalidateOn,
     });
   }
-  const { fieldValue, setTouched, setValue, errorMessage, setErrors, isDisabled } = field;
+  const { fieldValue, setTouched, setValue, displayError, setErrors, isDisabled } = field;
 
   const checked = computed({
     get() {
@@ -138,10 +157,10 @@ export function useCheckbox<TValue = string>(
 
   const { errorMessageProps, accessibleErrorProps } = useErrorMessage({
     inputId,
-    errorMessage,
+    errorMessage: displayError,
   });
 
-  const isReadOnly = () => (toValue(props.readonly) || group?.readonly) ?? false;
+  const isReadOnly = () => field.isReadonly.value || (toValue(props.readonly) ?? false);
   const isMutable = () => !isDisabled.value && !isReadOnly() && !toValue(props.indeterminate);
 
   function createHandlers(isInput: boolean) {
@@ -311,6 +330,7 @@ export function useCheckbox<TValue = string>(
 
 function useCheckboxField<TValue = string>(
   props: NormalizedProps<Reactivify<CheckboxProps<TValue>, 'schema'>, 'schema'>,
+  inputId: string,
 ) {
   const group: CheckboxGroupContext<TValue> | null = inject(CheckboxGroupKey, null);
 
@@ -322,9 +342,14 @@ function useCheckboxField<TValue = string>(
 
   return useFormField<TValue>({
     path: props.name,
+    label: props.label,
+    kind: 'Checkbox',
+    inputId,
     initialValue: toValue(props.modelValue) as TValue,
     disabled: props.disabled,
+    readonly: props.readonly,
     schema: props.schema,
+    dependsOn: props.dependsOn,
   });
 }
 
@@ -213,6 +213,7 @@ describe('validation', () => {
     });
 
     await fireEvent.invalid(screen.getByLabelText('First'));
+    await fireEvent.blur(screen.getByLabelText('First'));
     await flush();
     expect(screen.getByLabelText('Group')).toHaveErrorMessage('Constraints not satisfied');
 
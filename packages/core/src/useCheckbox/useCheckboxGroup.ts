@@ -9,6 +9,7 @@ import {
   Reactivify,
   Arrayable,
   StandardSchema,
+  ValidationTrigger,
 } from '../types';
 import {
   useUniqId,
@@ -104,6 +105,21 @@ export interface CheckboxGroupProps<TCheckbox = unknown> {
    */
   schema?: StandardSchema<CheckboxGroupValue<TCheckbox>>;
 
+  /**
+   * Paths of other fields that should trigger this field's validation when their values change.
+   */
+  dependsOn?: string[];
+
+  /**
+   * The interactions that validate the field before the form is submitted, overrides the form and global settings.
+   */
+  validateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The interactions that validate the field after the form was submitted, defaults to `validateOn`.
+   */
+  revalidateOn?: Arrayable<ValidationTrigger>;
+
   /**
    * Whether HTML5 validation should be disabled for this checkbox group.
    */
@@ -127,27 +143,38 @@ export function useCheckboxGroup<TCheckbox>(_props: Reactivify<CheckboxGroupProp
 
   const field = useFormField({
     path: props.name,
+    label: props.label,
+    kind: 'CheckboxGroup',
+    inputId: groupId,
+    focus: opts => {
+      const checkbox = checkboxes.value.find(c => !c.isDisabled());
+      checkbox?.getElem()?.focus(opts);
+    },
     initialValue: toValue(props.modelValue),
     schema: props.schema,
+    dependsOn: props.dependsOn,
     disabled: props.disabled,
+    readonly: props.readonly,
   });
 
-  const { validityDetails, updateValidity } = useInputValidity({
+  const { validityDetails, triggerValidation } = useInputValidity({
     field,
     inputEl: computed(() => checkboxes.value.map(v => v.getElem())),
     events: ['blur', 'click', ['keydown', e => hasKeyCode(e, 'Space')]],
     groupValidityBehavior: 'some',
     disableHtmlValidation: props.disableHtmlValidation,
+    validateOn: props.validateOn,
+    revalidateOn: props.revalidateOn,
   });
 
-  const { fieldValue, setValue, isTouched, setTouched, errorMessage, isDisabled } = field;
+  const { fieldValue, setValue, isTouched, setTouched, displayError, isDisabled } = field;
   const { describedByProps, descriptionProps } = createDescribedByProps({
     inputId: groupId,
     description: props.description,
   });
   const { accessibleErrorProps, errorMessageProps } = useErrorMessage({
     inputId: groupId,
-    errorMessage,
+    errorMessage: displayError,
   });
 
   const groupProps = computed<CheckboxGroupDomProps>(() => {
@@ -170,7 +197,7 @@ export function useCheckboxGroup<TCheckbox>(_props: Reactivify<CheckboxGroupProp
   }
 
   function toggleValue(value: TCheckbox, force?: boolean) {
-    if (isDisabled.value || toValue(props.readonly)) {
+    if (isDisabled.value || field.isReadonly.value) {
       return;
     }
 
@@ -178,7 +205,7 @@ export function useCheckboxGroup<TCheckbox>(_props: Reactivify<CheckboxGroupProp
 
     setValue(nextValue);
     if (checkboxes.value.some(c => !isInputElement(c.getElem()))) {
-      updateValidity();
+      triggerValidation('input', 'change');
     }
   }
 
@@ -212,7 +239,7 @@ export function useCheckboxGroup<TCheckbox>(_props: Reactivify<CheckboxGroupProp
 
   const context: CheckboxGroupContext<TCheckbox> = reactive({
     name: computed(() => toValue(props.name) ?? groupId),
-    readonly: computed(() => toValue(props.readonly) ?? false),
+    readonly: field.isReadonly,
     required: computed(() => toValue(props.required) ?? false),
     field: markRaw(field),
     groupState,
@@ -1,5 +1,5 @@
 import { computed, ref, toValue, watch } from 'vue';
-import { InputEvents, Maybe, Reactivify, StandardSchema } from '../types';
+import { InputEvents, Maybe, Reactivify, StandardSchema, Arrayable, ValidationTrigger } from '../types';
 import { Orientation } from '../types';
 import {
   createDescribedByProps,
@@ -75,6 +75,26 @@ export interface ComboBoxProps<TOption, TValue = TOption> {
    */
   schema?: StandardSchema<TValue>;
 
+  /**
+   * Paths of other fields that should trigger this field's validation when their values change.
+   */
+  dependsOn?: string[];
+
+  /**
+   * The interactions that validate the field before the form is submitted, overrides the form and global settings.
+   */
+  validateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The interactions that validate the field after the form was submitted, defaults to `validateOn`.
+   */
+  revalidateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The number of milliseconds to wait after the last change before running the schema validation.
+   */
+  validationDebounceMs?: number;
+
   /**
    * Whether to disable HTML5 validation.
    */
@@ -107,21 +127,34 @@ export function useComboBox<TOption, TValue = TOption>(
   const buttonEl = ref<HTMLElement>();
   const inputValue = ref('');
   const inputId = useUniqId(FieldTypePrefixes.ComboBox);
-  const isReadOnly = () => toValue(props.readonly);
   const field = useFormField<TValue>({
     path: props.name,
+    label: props.label,
+    kind: 'ComboBox',
+    inputId,
+    focus: opts => inputEl.value?.focus(opts),
     initialValue: (toValue(props.modelValue) ?? toValue(props.value)) as TValue,
     disabled: props.disabled,
+    readonly: props.readonly,
     schema: props.schema,
+    dependsOn: props.dependsOn,
+    validationDebounceMs: props.validationDebounceMs,
   });
 
-  const { fieldValue, setValue, errorMessage, isDisabled, setTouched } = field;
+  const { fieldValue, setValue, displayError, isDisabled, setTouched } = field;
+  const isReadOnly = () => field.isReadonly.value;
   const { labelProps, labelledByProps } = useLabel({
     label: props.label,
     for: inputId,
   });
 
-  const { validityDetails } = useInputValidity({ field, inputEl, disableHtmlValidation: props.disableHtmlValidation });
+  const { validityDetails } = useInputValidity({
+    field,
+    inputEl,
+    disableHtmlValidation: props.disableHtmlValidation,
+    validateOn: props.validateOn,
+    revalidateOn: props.revalidateOn,
+  });
   const { descriptionProps, describedByProps } = createDescribedByProps({
     inputId,
     description: props.description,
@@ -129,7 +162,7 @@ export function useComboBox<TOption, TValue = TOption>(
 
   const { accessibleErrorProps, errorMessageProps } = useErrorMessage({
     inputId,
-    errorMessage,
+    errorMessage: displayError,
   });
 
   const {
@@ -348,7 +381,8 @@ export function useComboBox<TOption, TValue = TOption>(
         'aria-activedescendant': findFocusedOption()?.id ?? undefined,
         disabled: isDisabled.value ? true : undefined,
         value: inputValue.value,
-        ...propsToValues(props, ['name', 'placeholder', 'required', 'readonly']),
+        ...propsToValues(props, ['name', 'placeholder', 'required']),
+        readonly: isReadOnly() || undefined,
         ...accessibleErrorProps.value,
         ...describedByProps.value,
         ...handlers,
@@ -1,4 +1,4 @@
-import { render, screen } from '@testing-library/vue';
+import { fireEvent, render, screen } from '@testing-library/vue';
 import { axe } from 'vitest-axe';
 import { useCustomField } from './useCustomField';
 import { flush } from '@test-utils/flush';
@@ -204,5 +204,29 @@ describe('useCustomField', () => {
       await validate();
       expect(errorMessage.value).toBe('Value is required');
     });
+
+    test('validates on the configured triggers', async () => {
+      let field!: ReturnType<typeof useCustomField<string>>;
+      await render({
+        setup() {
+          field = useCustomField<string>({ label: 'Custom Field', value: 'test', schema, validateOn: 'blur' });
+
+          return { controlProps: field.controlProps, errorMessage: field.errorMessage };
+        },
+        template: `
+          <div v-bind="controlProps" tabindex="0" data-testid="control"></div>
+          <span data-testid="err">{{ errorMessage }}</span>
+        `,
+      });
+
+      await flush();
+      field.setValue('');
+      await flush();
+      expect(screen.getByTestId('err')).toBeEmptyDOMElement();
+
+      await fireEvent.blur(screen.getByTestId('control'));
+      await flush();
+      expect(screen.getByTestId('err')).toHaveTextContent('Value is required');
+    });
   });
 });
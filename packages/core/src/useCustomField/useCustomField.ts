@@ -1,6 +1,6 @@
-import { computed, Ref, shallowRef, toValue } from 'vue';
+import { computed, Ref, shallowRef, toValue, watch } from 'vue';
 import { FieldTypePrefixes } from '../constants';
-import { Reactivify, StandardSchema } from '../types';
+import { Reactivify, StandardSchema, Arrayable, ValidationTrigger } from '../types';
 import { exposeField, useFormField } from '../useFormField';
 import { createDescribedByProps, normalizeProps, propsToValues, useUniqId, withRefCapture } from '../utils/common';
 import { useLabel, useErrorMessage } from '../a11y';
@@ -46,6 +46,26 @@ export interface CustomFieldProps<TValue = unknown> {
    * Schema for field validation.
    */
   schema?: StandardSchema<TValue>;
+
+  /**
+   * Paths of other fields that should trigger this field's validation when their values change.
+   */
+  dependsOn?: string[];
+
+  /**
+   * The interactions that validate the field before the form is submitted, overrides the form and global settings.
+   */
+  validateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The interactions that validate the field after the form was submitted, defaults to `validateOn`.
+   */
+  revalidateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The number of milliseconds to wait after the last change before running the schema validation.
+   */
+  validationDebounceMs?: number;
 }
 
 export function useCustomField<TValue = unknown>(
@@ -57,13 +77,26 @@ export function useCustomField<TValue = unknown>(
   const controlEl = elementRef || shallowRef<HTMLInputElement>();
   const field = useFormField<TValue | undefined>({
     path: props.name,
+    label: props.label,
+    kind: 'CustomField',
+    inputId: controlId,
     initialValue: (toValue(props.modelValue) ?? toValue(props.value)) as TValue | undefined,
     disabled: props.disabled,
+    readonly: props.readonly,
     schema: props.schema,
+    dependsOn: props.dependsOn,
+    validationDebounceMs: props.validationDebounceMs,
+  });
+
+  const { displayError, isDisabled, isReadonly } = field;
+  const { updateValidity, triggerValidation } = useInputValidity({
+    field,
+    validateOn: props.validateOn,
+    revalidateOn: props.revalidateOn,
   });
 
-  const { errorMessage, isDisabled } = field;
-  const { updateValidity } = useInputValidity({ field });
+  // Custom controls have no native events to listen to, so any value change counts as both an input and a change.
+  watch(field.fieldValue, () => triggerValidation('input', 'change'), { deep: true });
 
   const { labelProps, labelledByProps } = useLabel({
     for: controlId,
@@ -78,19 +111,21 @@ export function useCustomField<TValue = unknown>(
 
   const { accessibleErrorProps, errorMessageProps } = useErrorMessage({
     inputId: controlId,
-    errorMessage,
+    errorMessage: displayError,
   });
 
   const controlProps = computed(() =>
     withRefCapture(
       {
-        ...propsToValues(props, ['name', 'readonly']),
+        ...propsToValues(props, ['name']),
+        readonly: isReadonly.value || undefined,
         ...labelledByProps.value,
         ...describedByProps.value,
         ...accessibleErrorProps.value,
-        'aria-readonly': toValue(props.readonly) ? ('true' as const) : undefined,
+        'aria-readonly': isReadonly.value ? ('true' as const) : undefined,
         'aria-disabled': isDisabled.value ? ('true' as const) : undefined,
         id: controlId,
+        onBlur: () => triggerValidation('blur'),
       },
       controlEl,
       elementRef,
@@ -0,0 +1,152 @@
+import { Component, ref } from 'vue';
+import { fireEvent, render, screen } from '@testing-library/vue';
+import { defineStandardSchema, flush } from '@test-utils/index';
+import { useForm } from '../useForm';
+import { useTextField } from '../useTextField';
+import { useErrorSummary } from './useErrorSummary';
+
+function createInputComponent(): Component {
+  return {
+    inheritAttrs: false,
+    setup: (_, { attrs }) => {
+      const name = attrs.name as string;
+      const { inputProps } = useTextField({ name, label: `${name} label`, required: true });
+
+      return { inputProps, name };
+    },
+    template: `<input v-bind="inputProps" :data-testid="name" />`,
+  };
+}
+
+function createSummaryComponent(opts?: Parameters<typeof useErrorSummary>[0]): Component {
+  return {
+    setup: () => useErrorSummary(opts),
+    template: `
+      <div v-if="hasErrors" v-bind="summaryProps" data-testid="summary">
+        <a v-for="item in items" :key="item.path" v-bind="item.linkProps">{{ item.label }}: {{ item.message }}</a>
+      </div>
+    `,
+  };
+}
+
+async function renderForm(opts?: Parameters<typeof useErrorSummary>[0], formProps?: Parameters<typeof useForm>[0]) {
+  await render({
+    components: { TInput: createInputComponent(), TSummary: createSummaryComponent(opts) },
+    setup() {
+      const { handleSubmit } = useForm(formProps);
+
+      return { onSubmit: handleSubmit(() => {}) };
+    },
+    template: `
+      <form @submit.prevent="onSubmit" novalidate>
+        <TSummary />
+        <TInput name="email" />
+        <TInput name="name" />
+        <button type="submit">Submit</button>
+      </form>
+    `,
+  });
+
+  await flush();
+}
+
+test('lists the errors of the form fields with their labels', async () => {
+  await renderForm();
+
+  await fireEvent.click(screen.getByText('Submit'));
+  await flush();
+
+  const summary = screen.getByTestId('summary');
+  expect(summary).toHaveAttribute('role', 'alert');
+  expect(summary).toHaveAttribute('tabindex', '-1');
+  expect(screen.getAllByRole('link').map(link => link.textContent)).toEqual([
+    'email label: Constraints not satisfied',
+    'name label: Constraints not satisfied',
+  ]);
+});
+
+test('focuses the summary after a failed submission', async () => {
+  await renderForm();
+
+  await fireEvent.click(screen.getByText('Submit'));
+  await flush();
+  expect(screen.getByTestId('summary')).toHaveFocus();
+});
+
+test('does not focus the summary when disabled', async () => {
+  await renderForm({ focusOnInvalidSubmit: false });
+
+  await fireEvent.click(screen.getByText('Submit'));
+  await flush();
+  expect(screen.getByTestId('summary')).not.toHaveFocus();
+});
+
+test('leaves the focus on the first invalid field when the form focuses it', async () => {
+  await renderForm({}, { focusInvalidFieldOnSubmit: true });
+
+  await fireEvent.click(screen.getByText('Submit'));
+  await flush();
+  expect(screen.getByTestId('email')).toHaveFocus();
+  expect(screen.getByTestId('summary')).not.toHaveFocus();
+});
+
+test('focuses the field when its link is clicked', async () => {
+  await renderForm();
+
+  await fireEvent.click(screen.getByText('Submit'));
+  await flush();
+  const link = screen.getByText('name label: Constraints not satisfied');
+  expect(link).toHaveAttribute('href', `#${screen.getByTestId('name').id}`);
+
+  await fireEvent.click(link);
+  expect(screen.getByTestId('name')).toHaveFocus();
+});
+
+test('does not list the errors before they are displayed', async () => {
+  const schema = defineStandardSchema<any>(value => ({
+    issues: ['email', 'name']
+      .filter(key => !(value as Record<string, string>)[key])
+      .map(key => ({ path: [key], message: 'Required' })),
+  }));
+
+  await renderForm({}, { schema });
+
+  expect(screen.queryByTestId('summary')).not.toBeInTheDocument();
+
+  await fireEvent.blur(screen.getByTestId('name'));
+  await flush();
+  const links = screen.getAllByRole('link');
+  expect(links).toHaveLength(1);
+  expect(links[0]).toHaveAttribute('href', `#${screen.getByTestId('name').id}`);
+});
+
+test('lists the errors in document order', async () => {
+  const isShown = ref(false);
+  await render({
+    components: { TInput: createInputComponent(), TSummary: createSummaryComponent() },
+    setup() {
+      const { handleSubmit } = useForm();
+
+      return { onSubmit: handleSubmit(() => {}), isShown };
+    },
+    template: `
+      <form @submit.prevent="onSubmit" novalidate>
+        <TSummary />
+        <TInput v-if="isShown" name="email" />
+        <TInput name="name" />
+        <button type="submit">Submit</button>
+      </form>
+    `,
+  });
+
+  await flush();
+  isShown.value = true;
+  await flush();
+
+  await fireEvent.click(screen.getByText('Submit'));
+  await flush();
+  expect(screen.getAllByRole('link').map(link => link.textContent)).toEqual([
+    'email label: Constraints not satisfied',
+    'name label: Constraints not satisfied',
+  ]);
+});
@@ -0,0 +1,140 @@
+import { computed, inject, nextTick, Ref, shallowRef } from 'vue';
+import { warn, withRefCapture } from '../utils/common';
+import { FormKey, FormFieldEntry } from '../useForm';
+import { sortByDocumentOrder } from '../useForm/formFields';
+
+export interface ErrorSummaryLinkProps {
+  href: string;
+  onClick: (e: Event) => void;
+}
+
+export interface ErrorSummaryItem {
+  /**
+   * The path of the invalid field.
+   */
+  path: string;
+
+  /**
+   * The label of the invalid field.
+   */
+  label: string | undefined;
+
+  /**
+   * The error message of the invalid field.
+   */
+  message: string;
+
+  /**
+   * Props for the link element, clicking it focuses and scrolls to the invalid field.
+   */
+  linkProps: ErrorSummaryLinkProps;
+}
+
+export interface ErrorSummaryDomProps {
+  role: 'alert';
+  tabindex: '-1';
+}
+
+export interface ErrorSummaryOptions {
+  /**
+   * Whether to focus the summary after a submission fails because of validation errors, defaults to `true`.
+   * Forms that focus their first invalid field with `focusInvalidFieldOnSubmit` keep the focus on the field instead.
+   */
+  focusOnInvalidSubmit?: boolean;
+}
+
+/**
+ * Lists the form's displayed errors with links to their fields, the summary is announced and focused when a submission fails.
+ * @example
+ * ```ts
+ * const { items, summaryProps } = useErrorSummary();
+ * ```
+ */
+export function useErrorSummary(opts?: ErrorSummaryOptions, elementRef?: Ref<HTMLElement | undefined>) {
+  const form = inject(FormKey, null);
+  const summaryEl = elementRef || shallowRef<HTMLElement>();
+
+  if (!form) {
+    warn('Error summaries must have a parent form. Please make sure to call `useForm` at a parent component.');
+  }
+
+  // The errors follow the same display policy as the fields, so mount validation doesn't fill the summary.
+  const items = computed<ErrorSummaryItem[]>(() =>
+    sortByDocumentOrder(form?.getFields() ?? []).flatMap(({ field }) => {
+      if (!field.errorMessage || !form?.shouldDisplayError({ isTouched: field.isTouched, isDirty: field.isDirty })) {
+        return [];
+      }
+
+      return [
+        {
+          path: field.path,
+          label: field.label,
+          message: field.errorMessage,
+          linkProps: {
+            href: field.inputId ? `#${field.inputId}` : '#',
+            onClick: (e: Event) => {
+              e.preventDefault();
+              focusField(field);
+            },
+          },
+        },
+      ];
+    }),
+  );
+
+  const hasErrors = computed(() => items.value.length > 0);
+
+  const summaryProps = computed<ErrorSummaryDomProps>(() =>
+    withRefCapture(
+      {
+        role: 'alert',
+        tabindex: '-1',
+      },
+      summaryEl,
+      elementRef,
+    ),
+  );
+
+  function focus() {
+    summaryEl.value?.focus();
+  }
+
+  form?.onInvalidSubmit(async () => {
+    if (opts?.focusOnInvalidSubmit === false || form.shouldFocusInvalidField()) {
+      return;
+    }
+
+    // The summary is usually rendered conditionally, so it needs a tick to show up with the new errors.
+    await nextTick();
+    focus();
+  });
+
+  return {
+    /**
+     * Reference to the summary element.
+     */
+    summaryEl,
+    /**
+     * Props for the summary element.
+     */
+    summaryProps,
+    /**
+     * The invalid fields with displayed errors, in the order they appear in the document.
+     */
+    items,
+    /**
+     * Whether the form has any errors to summarize.
+     */
+    hasErrors,
+    /**
+     * Moves the focus to the summary.
+     */
+    focus,
+  };
+}
+
+function focusField(field: FormFieldEntry) {
+  const el = field.inputId ? document.getElementById(field.inputId) : null;
+  el?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  field.focus({ preventScroll: !!el });
+}
@@ -0,0 +1,20 @@
+import { ErrorDisplayPolicy, ErrorDisplayState } from '../types';
+
+export function shouldDisplayError(policy: ErrorDisplayPolicy, state: ErrorDisplayState): boolean {
+  if (typeof policy === 'function') {
+    return policy(state);
+  }
+
+  switch (policy) {
+    case 'dirty':
+      return state.isDirty;
+    case 'submitted':
+      return state.isSubmitAttempted;
+    case 'touched-or-submitted':
+      return state.isTouched || state.isSubmitAttempted;
+    case 'always':
+      return true;
+    default:
+      return state.isTouched;
+  }
+}
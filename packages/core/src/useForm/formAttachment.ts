@@ -0,0 +1,164 @@
+import { Ref, watch } from 'vue';
+import { ErrorsSchema, FormObject, FormValidationResult, GroupValidationResult, Path, TouchedSchema } from '../types';
+import { cloneDeep, isEqual, tryOnScopeDispose } from '../utils/common';
+import { prefixPath, setInPath } from '../utils/path';
+import { isObject, isPlainObject } from '../../../shared/src';
+import { BaseFormContext } from './formContext';
+import type { FormContext } from './useForm';
+
+interface FormAttachmentInit<TForm extends FormObject> {
+  parent: FormContext;
+  path: string;
+  form: BaseFormContext<TForm>;
+  values: TForm;
+  touched: TouchedSchema<TForm>;
+  errors: Ref<ErrorsSchema<TForm>>;
+  validate: () => Promise<FormValidationResult>;
+}
+
+/**
+ * Mirrors a form's state into an ancestor form under the given path, while keeping the form usable on its own.
+ */
+export function attachToParentForm<TForm extends FormObject>({
+  parent,
+  path,
+  form,
+  values,
+  touched,
+  errors,
+  validate,
+}: FormAttachmentInit<TForm>) {
+  const parentValue = parent.getValue(path);
+  if (isObject(parentValue)) {
+    // The parent already has values for this path, so they take precedence over the sub-form's own initial values.
+    form.setInitialValues(parentValue as Partial<TForm>, { behavior: 'merge' });
+    form.revertValues();
+  } else {
+    const initials: FormObject = {};
+    setInPath(initials, path, form.getOriginalValues());
+    parent.setInitialValues(initials, { behavior: 'merge' });
+  }
+
+  let isSyncing = false;
+  syncValues();
+
+  function syncValues() {
+    isSyncing = true;
+    try {
+      writeValues();
+    } finally {
+      isSyncing = false;
+    }
+  }
+
+  function writeValues() {
+    const current = parent.getValue(path);
+    const leaves = collectLeaves(values);
+    // Paths that were removed from the sub-form are removed from the parent as well.
+    for (const leaf of Object.keys(isObject(current) ? collectLeaves(current) : {})) {
+      if (!(leaf in leaves)) {
+        parent.unsetPath(prefixPath(path, leaf) as string);
+      }
+    }
+
+    for (const [leaf, value] of Object.entries(leaves)) {
+      const leafPath = prefixPath(path, leaf) as string;
+      if (!isEqual(parent.getValue(leafPath), value)) {
+        parent.setValue(leafPath, cloneDeep(value));
+      }
+    }
+  }
+
+  watch(values, syncValues, { deep: true });
+
+  watch(
+    touched,
+    () => {
+      for (const [leaf, value] of Object.entries(collectLeaves(touched as FormObject))) {
+        parent.setTouched(prefixPath(path, leaf) as string, !!value);
+      }
+    },
+    { deep: true },
+  );
+
+  let mirroredErrors: string[] = [];
+  watch(
+    errors,
+    () => {
+      const entries = Object.entries(errors.value).map(
+        ([key, messages]) => [prefixPath(path, key) as string, messages as string[]] as const,
+      );
+      const paths = entries.map(([errorPath]) => errorPath);
+      for (const stale of mirroredErrors.filter(errorPath => !paths.includes(errorPath))) {
+        parent.setErrors(stale, []);
+      }
+
+      for (const [errorPath, messages] of entries) {
+        parent.setErrors(errorPath, messages);
+      }
+
+      mirroredErrors = paths;
+    },
+    { deep: true },
+  );
+
+  parent.onValueChange(
+    path,
+    (value, _, { source }) => {
+      // The parent is notified for every path the sub-form writes, so partially synced values are ignored.
+      if (isSyncing) {
+        return;
+      }
+
+      if (source === 'reset') {
+        form.revertValues();
+        form.revertTouched();
+        form.revertDirty();
+        return;
+      }
+
+      if (!isEqual(value ?? {}, values)) {
+        form.setValues(cloneDeep(value ?? {}) as Partial<TForm>, { behavior: 'replace' });
+      }
+    },
+    { deep: true },
+  );
+
+  // The parent validates the sub-form like a form group, so its errors survive the parent's validation.
+  parent.onValidationDispatch(enqueue => {
+    enqueue(
+      validate().then<GroupValidationResult>(result => ({
+        type: 'GROUP',
+        path,
+        mode: result.mode,
+        isValid: result.isValid,
+        output: result.output,
+        errors: result.errors.map(e => ({ ...e, path: prefixPath(path, e.path) || path })),
+      })),
+    );
+  });
+
+  parent.onSubmitAttempt(() => {
+    form.setTouched(true);
+  });
+
+  tryOnScopeDispose(() => {
+    parent.transaction((_, { DESTROY_PATH }) => ({
+      kind: DESTROY_PATH,
+      path: path as Path<FormObject>,
+    }));
+  });
+}
+
+/**
+ * Only plain objects are walked, values like dates and files are leaves.
+ */
+function collectLeaves(data: FormObject, prefix = ''): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data).flatMap(([key, value]) => {
+      const path = prefix ? `${prefix}.${key}` : key;
+
+      return isPlainObject(value) ? Object.entries(collectLeaves(value as FormObject, path)) : [[path, value]];
+    }),
+  );
+}
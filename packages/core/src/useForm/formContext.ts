@@ -22,7 +22,12 @@ import {
   unsetPath as unsetInObject,
 } from '../utils/path';
 import { FormSnapshot } from './formSnapshot';
-import { isObject, merge } from '../../../shared/src';
+import { FormHistory } from './formHistory';
+import { FormRules } from './formRules';
+import { FormDerivedValues } from './formDerived';
+import { FormPluginHost } from './formPlugins';
+import { createValueWatchers, FormValueWatchers } from './formValueWatchers';
+import { isObject, isPlainObject, merge } from '../../../shared/src';
 
 export type FormValidationMode = 'aggregate' | 'schema';
 
@@ -44,6 +49,7 @@ export interface BaseFormContext<TForm extends FormObject = FormObject> {
   unsetInitialValue<TPath extends Path<TForm>>(path: TPath): void;
   setInitialValues: (newValues: Partial<TForm>, opts?: SetValueOptions) => void;
   setInitialTouched: (newTouched: Partial<TouchedSchema<TForm>>, opts?: SetValueOptions) => void;
+  setFieldInitialValue<TPath extends Path<TForm>>(path: TPath, value: PathValue<TForm, TPath> | undefined): void;
   setFieldDisabled<TPath extends Path<TForm>>(path: TPath, value: boolean): void;
   getErrors<TPath extends Path<TForm>>(path?: TPath): string[];
   getFieldSubmitErrors<TPath extends Path<TForm>>(path: TPath): string[];
@@ -54,11 +60,19 @@ export interface BaseFormContext<TForm extends FormObject = FormObject> {
   clearErrors: (path?: string) => void;
   clearSubmitErrors: (path?: string) => void;
   getValues: () => TForm;
+  getOriginalValues: () => TForm;
   setValues: (newValues: Partial<TForm>, opts?: SetValueOptions) => void;
   revertValues: () => void;
+  revertPath<TPath extends Path<TForm>>(path: TPath): void;
   revertTouched: () => void;
   revertDirty: () => void;
   isPathDisabled: (path: Path<TForm>) => boolean;
+  isPathDisabledByRule: (path: Path<TForm>) => boolean;
+  isPathHidden: (path: Path<TForm>) => boolean;
+  isPathDerived: (path: Path<TForm>) => boolean;
+  getDisabledPaths: () => string[];
+  onValueChange: FormValueWatchers<TForm>['onValueChange'];
+  withValueChangeSource: FormValueWatchers<TForm>['withSource'];
 }
 
 export interface SetValueOptions {
@@ -79,6 +93,10 @@ export interface FormContextCreateOptions<TForm extends FormObject = FormObject,
     touched: FormSnapshot<TouchedSchema<TForm>>;
     dirty: FormSnapshot<DirtySchema<TForm>>;
   };
+  history?: FormHistory;
+  rules?: FormRules;
+  derived?: FormDerivedValues;
+  plugins?: FormPluginHost<TForm, TOutput>;
 }
 
 export function createFormContext<TForm extends FormObject = FormObject, TOutput extends FormObject = TForm>({
@@ -91,11 +109,29 @@ export function createFormContext<TForm extends FormObject = FormObject, TOutput
   schema,
   touched,
   snapshots,
+  history,
+  rules,
+  derived,
+  plugins,
 }: FormContextCreateOptions<TForm, TOutput>): BaseFormContext<TForm> {
+  let isSettingValues = false;
+  const watchers = createValueWatchers(values);
+
   function setValue<TPath extends Path<TForm>>(path: TPath, value: PathValue<TForm, TPath> | undefined) {
+    // Derived values are read-only, they are only updated when the values they depend on change.
+    if (derived?.isPathDerived(path)) {
+      return;
+    }
+
+    history?.record(path);
+    const previousValue = plugins?.watchesValues ? cloneDeep(getFromPath(values, path)) : undefined;
     setInPath(values, path, cloneDeep(value));
     const oldValue = getFieldOriginalValue(path);
     setDirty(path, !isEqual(oldValue, value));
+    derived?.sync();
+    if (plugins?.watchesValues && !isSettingValues && !isEqual(previousValue, value)) {
+      plugins.valueChanged(path, value, previousValue);
+    }
   }
 
   function setTouched(value: boolean): void;
@@ -154,6 +190,10 @@ export function createFormContext<TForm extends FormObject = FormObject, TOutput
       return;
     }
 
+    if (derived?.isPathDerived(pathOrValue)) {
+      return;
+    }
+
     setInPath(dirty, pathOrValue, valueOrUndefined, true);
   }
 
@@ -162,17 +202,21 @@ export function createFormContext<TForm extends FormObject = FormObject, TOutput
   }
 
   function destroyPath<TPath extends Path<TForm>>(path: TPath) {
+    history?.record(path);
     unsetInObject(values, path, true);
     unsetInObject(touched, path, true);
     unsetInObject(disabled, escapePath(path), true);
     unsetInObject(errors.value, escapePath(path), true);
+    derived?.sync();
   }
 
   function unsetPath<TPath extends Path<TForm>>(path: TPath) {
+    history?.record(path);
     unsetInObject(values, path, false);
     unsetInObject(touched, path, false);
     unsetInObject(disabled, escapePath(path), false);
     unsetInObject(errors.value, escapePath(path), false);
+    derived?.sync();
   }
 
   function getFieldInitialValue<TPath extends Path<TForm>>(path: TPath) {
@@ -194,7 +238,24 @@ export function createFormContext<TForm extends FormObject = FormObject, TOutput
   function isPathDisabled(path: Path<TForm>) {
     const value = getLastReachableValue(disabled, path);
 
-    return typeof value === 'boolean' ? value : false;
+    return (typeof value === 'boolean' ? value : false) || isPathDisabledByRule(path);
+  }
+
+  function isPathDisabledByRule(path: Path<TForm>) {
+    return rules?.isPathDisabled(path) ?? false;
+  }
+
+  function isPathHidden(path: Path<TForm>) {
+    return rules?.isPathHidden(path) ?? false;
+  }
+
+  function getDisabledPaths() {
+    const paths = Object.entries(disabled)
+      .filter(([, v]) => !!v)
+      .map(([k]) => k);
+
+    // Children paths come first so that they are unset before their parents.
+    return [...new Set([...paths, ...(rules?.getDisabledPaths() ?? [])])].sort((a, b) => b.localeCompare(a));
   }
 
   function getSubmitErrors(): IssueCollection[] {
@@ -215,6 +276,16 @@ export function createFormContext<TForm extends FormObject = FormObject, TOutput
     snapshots.values.originals.value = cloneDeep(newValues) as TForm;
   }
 
+  function setFieldInitialValue<TPath extends Path<TForm>>(path: TPath, value: PathValue<TForm, TPath> | undefined) {
+    const initials = cloneDeep(snapshots.values.initials.value);
+    setInPath(initials, path, cloneDeep(value));
+    snapshots.values.initials.value = initials;
+
+    const originals = cloneDeep(snapshots.values.originals.value);
+    setInPath(originals, path, cloneDeep(value));
+    snapshots.values.originals.value = originals;
+  }
+
   function setInitialTouched(newTouched: Partial<TouchedSchema<TForm>>, opts?: SetValueOptions) {
     if (opts?.behavior === 'merge') {
       snapshots.touched.initials.value = merge(cloneDeep(snapshots.touched.initials.value), cloneDeep(newTouched));
@@ -232,8 +303,39 @@ export function createFormContext<TForm extends FormObject = FormObject, TOutput
    * TODO: Maybe have two different signatures for this method? A partial for merge mode and a full for replace mode?
    */
   function setValues(newValues: Partial<TForm>, opts?: SetValueOptions) {
+    watchers.withSource('setValues', () => updateValues(newValues, opts));
+  }
+
+  function updateValues(newValues: Partial<TForm>, opts?: SetValueOptions) {
+    // Only the affected paths are captured, so undoing doesn't override unrelated changes like fields initialized later.
+    for (const path of getAffectedPaths(values, newValues, opts)) {
+      history?.record(path);
+    }
+
+    if (!plugins?.watchesValues) {
+      applyValues(newValues, opts);
+      return;
+    }
+
+    // Plugins are notified once with the entire form rather than for every path that was set.
+    const previousValues = cloneDeep(values);
+    isSettingValues = true;
+    try {
+      applyValues(newValues, opts);
+    } finally {
+      isSettingValues = false;
+    }
+
+    if (!isEqual(previousValues, values)) {
+      // An empty path refers to the entire form.
+      plugins.valueChanged('', cloneDeep(values), previousValues);
+    }
+  }
+
+  function applyValues(newValues: Partial<TForm>, opts?: SetValueOptions) {
     if (opts?.behavior === 'merge') {
       merge(values, newValues);
+      derived?.sync();
 
       return;
     }
@@ -247,6 +349,8 @@ export function createFormContext<TForm extends FormObject = FormObject, TOutput
     Object.keys(newValues).forEach(key => {
       setValue(escapePath(key) as Path<TForm>, newValues[key] as PathValue<TForm, Path<TForm>>);
     });
+
+    derived?.sync();
   }
 
   function getErrors<TPath extends Path<TForm>>(path?: TPath) {
@@ -259,7 +363,7 @@ export function createFormContext<TForm extends FormObject = FormObject, TOutput
     }
 
     // // Check if there are any errors in the path prefix
-    const pathPrefixErrors = allErrors.filter(e => e.path.startsWith(path));
+    const pathPrefixErrors = allErrors.filter(e => isPathOrNested(e.path, path));
 
     if (pathPrefixErrors.length > 0) {
       return pathPrefixErrors.map(e => e.messages).flat();
@@ -317,7 +421,7 @@ export function createFormContext<TForm extends FormObject = FormObject, TOutput
     }
 
     Object.keys(errors.value).forEach(key => {
-      if (key === path || key.startsWith(path)) {
+      if (isPathOrNested(key, path)) {
         delete errors.value[key as Path<TForm>];
       }
     });
@@ -330,14 +434,29 @@ export function createFormContext<TForm extends FormObject = FormObject, TOutput
     }
 
     Object.keys(submitErrors.value).forEach(key => {
-      if (key === path || key.startsWith(path)) {
+      if (isPathOrNested(key, path)) {
         delete submitErrors.value[key as Path<TForm>];
       }
     });
   }
 
   function revertValues() {
-    setValues(cloneDeep(snapshots.values.originals.value), { behavior: 'replace' });
+    watchers.withSource('reset', () => setValues(cloneDeep(snapshots.values.originals.value), { behavior: 'replace' }));
+  }
+
+  function revertPath<TPath extends Path<TForm>>(path: TPath) {
+    watchers.withSource('reset', () => {
+      if (isPathSet(snapshots.values.originals.value, path) || derived?.isPathDerived(path)) {
+        setValue(path, cloneDeep(getFieldOriginalValue(path)));
+        return;
+      }
+
+      // Paths that have no original value are removed rather than set to `undefined`.
+      history?.record(path);
+      unsetInObject(values, path, true);
+      setDirty(path, false);
+      derived?.sync();
+    });
   }
 
   function revertTouched() {
@@ -355,6 +474,7 @@ export function createFormContext<TForm extends FormObject = FormObject, TOutput
   return {
     id,
     getValues: () => cloneDeep(values),
+    getOriginalValues: () => cloneDeep(snapshots.values.originals.value),
     setValue,
     getFieldInitialValue,
     setTouched,
@@ -368,10 +488,12 @@ export function createFormContext<TForm extends FormObject = FormObject, TOutput
     unsetInitialValue,
     setValues,
     revertValues,
+    revertPath,
     revertTouched,
     setInitialValues,
     revertDirty,
     setInitialTouched,
+    setFieldInitialValue,
     getFieldOriginalValue,
     setFieldDisabled,
     setErrors,
@@ -383,5 +505,39 @@ export function createFormContext<TForm extends FormObject = FormObject, TOutput
     clearSubmitErrors,
     getValidationMode,
     isPathDisabled,
+    isPathDisabledByRule,
+    isPathDerived: (path: Path<TForm>) => !!derived?.isPathDerived(path),
+    isPathHidden,
+    getDisabledPaths,
+    onValueChange: watchers.onValueChange,
+    withValueChangeSource: watchers.withSource,
   };
 }
+
+function getAffectedPaths(values: FormObject, newValues: FormObject, opts?: SetValueOptions): string[] {
+  if (opts?.behavior === 'merge') {
+    return collectMergedPaths(values, newValues);
+  }
+
+  // Replacing clears every key and sets the new ones, like `applyValues` does.
+  return [...new Set([...Object.keys(values), ...Object.keys(newValues)])].map(escapePath);
+}
+
+function collectMergedPaths(target: unknown, source: FormObject, prefix = ''): string[] {
+  return Object.entries(source).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const targetValue = isPlainObject(target) ? (target as FormObject)[key] : undefined;
+
+    // Only plain objects are merged key by key, anything else like a `Date` is replaced as a whole.
+    return isPlainObject(value) && isPlainObject(targetValue)
+      ? collectMergedPaths(targetValue, value as FormObject, path)
+      : [path];
+  });
+}
+
+/**
+ * Checks if the key is the path itself or nested under it, `email` does not match `emailConfirm`.
+ */
+function isPathOrNested(key: string, path: string) {
+  return key === path || key.startsWith(`${path}.`) || key.startsWith(`${path}[`);
+}
@@ -0,0 +1,54 @@
+import { NOOP } from '../constants';
+import { warn } from '../utils/common';
+
+/**
+ * Keeps track of the validation dependencies between form paths, it is used to detect cycles during development.
+ */
+export function createDependencyGraph() {
+  const edges = new Map<string, string[]>();
+
+  function findCycle(from: string, to: string, visited = new Set<string>()): string[] | undefined {
+    if (from === to) {
+      return [to];
+    }
+
+    if (visited.has(from)) {
+      return undefined;
+    }
+
+    visited.add(from);
+    for (const dep of edges.get(from) ?? []) {
+      const cycle = findCycle(dep, to, visited);
+      if (cycle) {
+        return [from, ...cycle];
+      }
+    }
+
+    return undefined;
+  }
+
+  function register(path: string, dependencies: string[]): () => void {
+    if (!__DEV__ || !dependencies.length) {
+      return NOOP;
+    }
+
+    edges.set(path, dependencies);
+    for (const dep of dependencies) {
+      const cycle = findCycle(dep, path);
+      if (cycle) {
+        warn(`Detected a cycle in validation dependencies: ${[path, ...cycle].join(' -> ')}`);
+        break;
+      }
+    }
+
+    return () => {
+      if (edges.get(path) === dependencies) {
+        edges.delete(path);
+      }
+    };
+  }
+
+  return {
+    register,
+  };
+}
@@ -0,0 +1,56 @@
+import { watch } from 'vue';
+import { FormObject, Path } from '../types';
+import { cloneDeep, isEqual } from '../utils/common';
+import { getFromPath, setInPath } from '../utils/path';
+
+export type DerivedValues<TForm extends FormObject = FormObject> = Partial<
+  Record<Path<TForm>, (values: TForm) => unknown>
+>;
+
+export interface FormDerivedValues {
+  /**
+   * Checks if the path value is computed from other values.
+   */
+  isPathDerived(path: string): boolean;
+  /**
+   * Writes the derived values back into the form values if they were overridden.
+   */
+  sync(): void;
+}
+
+export function createDerivedValues<TForm extends FormObject>(
+  derived: DerivedValues<TForm>,
+  values: TForm,
+): FormDerivedValues {
+  const entries = Object.entries(derived) as [string, (values: TForm) => unknown][];
+
+  function write(path: string, value: unknown) {
+    if (!isEqual(getFromPath(values, path), value)) {
+      setInPath(values, path, cloneDeep(value));
+    }
+  }
+
+  function isPathDerived(path: string) {
+    return entries.some(([derivedPath]) => derivedPath === path);
+  }
+
+  function sync() {
+    for (const [path, getter] of entries) {
+      write(path, getter(values));
+    }
+  }
+
+  // Derived values are written synchronously, so they are never out of sync when read.
+  for (const [path, getter] of entries) {
+    watch(
+      () => getter(values),
+      value => write(path, value),
+      { immediate: true, flush: 'sync' },
+    );
+  }
+
+  return {
+    isPathDerived,
+    sync,
+  };
+}
@@ -0,0 +1,148 @@
+import { computed, Ref, shallowRef } from 'vue';
+import { FieldTypePrefixes } from '../constants';
+import { Getter } from '../types';
+
+export type FormFieldKind = keyof typeof FieldTypePrefixes;
+
+export interface FormFieldEntry {
+  /**
+   * The path of the field in the form values.
+   */
+  path: string;
+
+  /**
+   * The label of the field.
+   */
+  label: string | undefined;
+
+  /**
+   * The kind of the field, for example `TextField` or `Select`.
+   */
+  kind: FormFieldKind | undefined;
+
+  /**
+   * The id of the field's input element, fields without an input element like hidden fields do not have one.
+   */
+  inputId: string | undefined;
+
+  /**
+   * The id of the field's error message element.
+   */
+  errorMessageId: string | undefined;
+
+  /**
+   * The first error message of the field.
+   */
+  errorMessage: string | undefined;
+
+  /**
+   * Whether the field is disabled.
+   */
+  isDisabled: boolean;
+
+  /**
+   * Whether the field is touched.
+   */
+  isTouched: boolean;
+
+  /**
+   * Whether the field is dirty.
+   */
+  isDirty: boolean;
+
+  /**
+   * Whether the field is valid.
+   */
+  isValid: boolean;
+
+  /**
+   * Moves the focus to the field's focusable element, like the checked radio or the first slider thumb.
+   */
+  focus: (opts?: FocusOptions) => void;
+}
+
+export interface FormFieldRegistration {
+  getPath: Getter<string | undefined>;
+  getLabel: Getter<string | undefined>;
+  kind: FormFieldKind | undefined;
+  inputId: string | undefined;
+  errorMessageId: string | undefined;
+  errorMessage: Ref<string>;
+  isDisabled: Ref<boolean>;
+  isTouched: Ref<boolean>;
+  isDirty: Ref<boolean>;
+  isValid: Ref<boolean>;
+  focus(opts?: FocusOptions): void;
+}
+
+export type FormFieldRegistry = ReturnType<typeof createFieldRegistry>;
+
+/**
+ * Keeps track of the fields mounted in a form, in the order they were registered.
+ */
+export function createFieldRegistry() {
+  const registrations = shallowRef<FormFieldRegistration[]>([]);
+  // Fields can be disposed before their registration is committed, so they are remembered to avoid registering them.
+  const disposed = new WeakSet<FormFieldRegistration>();
+
+  const fields = computed<FormFieldEntry[]>(() =>
+    registrations.value.flatMap(field => {
+      const path = field.getPath();
+
+      return path ? [toEntry(field, path)] : [];
+    }),
+  );
+
+  function register(field: FormFieldRegistration) {
+    if (disposed.has(field) || registrations.value.includes(field)) {
+      return;
+    }
+
+    registrations.value = [...registrations.value, field];
+  }
+
+  function unregister(field: FormFieldRegistration) {
+    disposed.add(field);
+    registrations.value = registrations.value.filter(f => f !== field);
+  }
+
+  return {
+    fields,
+    register,
+    unregister,
+  };
+}
+
+/**
+ * Sorts the fields by where their input elements appear in the document, since the registration order follows when they were mounted.
+ * Fields without an input element in the document come last.
+ */
+export function sortByDocumentOrder(fields: FormFieldEntry[]) {
+  return fields
+    .map(field => ({ field, el: field.inputId ? document.getElementById(field.inputId) : null }))
+    .sort((a, b) => compareDocumentOrder(a.el, b.el));
+}
+
+function compareDocumentOrder(a: Element | null, b: Element | null) {
+  if (!a || !b) {
+    return a ? -1 : b ? 1 : 0;
+  }
+
+  return a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+}
+
+function toEntry(field: FormFieldRegistration, path: string): FormFieldEntry {
+  return {
+    path,
+    label: field.getLabel(),
+    kind: field.kind,
+    inputId: field.inputId,
+    errorMessageId: field.errorMessageId,
+    errorMessage: field.errorMessage.value || undefined,
+    isDisabled: field.isDisabled.value,
+    isTouched: field.isTouched.value,
+    isDirty: field.isDirty.value,
+    isValid: field.isValid.value,
+    focus: field.focus,
+  };
+}
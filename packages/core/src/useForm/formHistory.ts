@@ -0,0 +1,212 @@
+import { computed, nextTick, shallowRef } from 'vue';
+import { DirtySchema, FormObject, TouchedSchema } from '../types';
+import { cloneDeep, isEqual } from '../utils/common';
+import { getFromPath, isPathSet, setInPath, unsetPath } from '../utils/path';
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+interface PathState {
+  isSet: boolean;
+  value: unknown;
+  touched: unknown;
+  dirty: unknown;
+}
+
+interface HistoryRecord {
+  path: string;
+  before: PathState;
+  after: PathState;
+}
+
+type HistoryEntry = HistoryRecord[];
+
+export interface FormHistoryOptions<TForm extends FormObject> {
+  values: TForm;
+  touched: TouchedSchema<TForm>;
+  dirty: DirtySchema<TForm>;
+  limit?: number;
+}
+
+export interface FormHistory {
+  /**
+   * Captures the state of a path before it gets mutated, changes captured within the same tick are grouped in a single entry.
+   */
+  record(path: string): void;
+  /**
+   * Runs the given function without recording any of the changes it makes.
+   */
+  untracked<TReturns>(fn: () => TReturns): TReturns;
+  undo(): boolean;
+  redo(): boolean;
+  clear(): void;
+}
+
+export function createFormHistory<TForm extends FormObject>({
+  values,
+  touched,
+  dirty,
+  limit = DEFAULT_HISTORY_LIMIT,
+}: FormHistoryOptions<TForm>) {
+  const undoStack = shallowRef<HistoryEntry[]>([]);
+  const redoStack = shallowRef<HistoryEntry[]>([]);
+  let pending: Map<string, PathState> | null = null;
+  let isPaused = false;
+
+  function readState(path: string): PathState {
+    // An empty path refers to the entire form.
+    if (!path) {
+      return {
+        isSet: true,
+        value: cloneDeep(values),
+        touched: cloneDeep(touched),
+        dirty: cloneDeep(dirty),
+      };
+    }
+
+    return {
+      isSet: isPathSet(values, path),
+      value: cloneDeep(getFromPath(values, path)),
+      touched: cloneDeep(getFromPath(touched, path)),
+      dirty: cloneDeep(getFromPath(dirty, path)),
+    };
+  }
+
+  function writeState(path: string, state: PathState) {
+    if (!path) {
+      replaceContents(values, state.value as FormObject);
+      replaceContents(touched, state.touched as FormObject);
+      replaceContents(dirty, state.dirty as FormObject);
+      return;
+    }
+
+    writePath(values, path, state.value, state.isSet);
+    writePath(touched, path, state.touched, state.touched !== undefined);
+    writePath(dirty, path, state.dirty, state.dirty !== undefined);
+  }
+
+  function record(path: string) {
+    if (isPaused || limit <= 0) {
+      return;
+    }
+
+    if (!pending) {
+      pending = new Map();
+      nextTick(commit);
+    }
+
+    if (!pending.has(path)) {
+      pending.set(path, readState(path));
+    }
+  }
+
+  function commit() {
+    if (!pending) {
+      return;
+    }
+
+    const entry: HistoryEntry = [];
+    for (const [path, before] of pending) {
+      const after = readState(path);
+      // Paths that ended up with the same value are not worth keeping, this keeps unrelated fields out of the entry.
+      if (before.isSet === after.isSet && isEqual(before.value, after.value)) {
+        continue;
+      }
+
+      entry.push({ path, before, after });
+    }
+
+    pending = null;
+    if (!entry.length) {
+      return;
+    }
+
+    undoStack.value = [...undoStack.value, entry].slice(-limit);
+    redoStack.value = [];
+  }
+
+  function untracked<TReturns>(fn: () => TReturns): TReturns {
+    const wasPaused = isPaused;
+    isPaused = true;
+    try {
+      return fn();
+    } finally {
+      isPaused = wasPaused;
+    }
+  }
+
+  function undo() {
+    commit();
+    const entry = undoStack.value.at(-1);
+    if (!entry) {
+      return false;
+    }
+
+    // Records are restored in reverse order so that parent paths captured later don't override their children.
+    untracked(() => {
+      for (let i = entry.length - 1; i >= 0; i--) {
+        writeState(entry[i].path, entry[i].before);
+      }
+    });
+
+    undoStack.value = undoStack.value.slice(0, -1);
+    redoStack.value = [...redoStack.value, entry];
+
+    return true;
+  }
+
+  function redo() {
+    commit();
+    const entry = redoStack.value.at(-1);
+    if (!entry) {
+      return false;
+    }
+
+    untracked(() => {
+      for (const { path, after } of entry) {
+        writeState(path, after);
+      }
+    });
+
+    redoStack.value = redoStack.value.slice(0, -1);
+    undoStack.value = [...undoStack.value, entry];
+
+    return true;
+  }
+
+  function clear() {
+    pending = null;
+    undoStack.value = [];
+    redoStack.value = [];
+  }
+
+  const history: FormHistory = {
+    record,
+    untracked,
+    undo,
+    redo,
+    clear,
+  };
+
+  return {
+    history,
+    canUndo: computed(() => undoStack.value.length > 0),
+    canRedo: computed(() => redoStack.value.length > 0),
+  };
+}
+
+function writePath(obj: FormObject, path: string, value: unknown, isSet: boolean) {
+  if (!isSet) {
+    unsetPath(obj, path, true);
+    return;
+  }
+
+  setInPath(obj, path, cloneDeep(value));
+}
+
+function replaceContents(obj: FormObject, contents: FormObject | undefined) {
+  Object.keys(obj).forEach(key => {
+    delete obj[key];
+  });
+
+  Object.assign(obj, cloneDeep(contents || {}));
+}
@@ -0,0 +1,41 @@
+import { Ref } from 'vue';
+import { DirtySchema, ErrorsSchema, FormObject, TouchedSchema } from '../types';
+import { cloneDeep } from '../utils/common';
+
+/**
+ * The state of a form as rendered on the server, the client form picks it up instead of computing it again.
+ */
+export interface FormStatePayload<TForm extends FormObject = FormObject> {
+  values: TForm;
+  touched: TouchedSchema<TForm>;
+  dirty: DirtySchema<TForm>;
+  errors: ErrorsSchema<TForm>;
+  submitErrors: ErrorsSchema<TForm>;
+  submitAttemptsCount: number;
+  isSubmitAttempted: boolean;
+  wasSubmitted: boolean;
+}
+
+interface FormStateInit<TForm extends FormObject> {
+  values: TForm;
+  touched: TouchedSchema<TForm>;
+  dirty: DirtySchema<TForm>;
+  errors: Ref<ErrorsSchema<TForm>>;
+  submitErrors: Ref<ErrorsSchema<TForm>>;
+  submitAttemptsCount: Ref<number>;
+  isSubmitAttempted: Ref<boolean>;
+  wasSubmitted: Ref<boolean>;
+}
+
+export function serializeFormState<TForm extends FormObject>(state: FormStateInit<TForm>): FormStatePayload<TForm> {
+  return {
+    values: cloneDeep(state.values),
+    touched: cloneDeep(state.touched),
+    dirty: cloneDeep(state.dirty),
+    errors: cloneDeep(state.errors.value),
+    submitErrors: cloneDeep(state.submitErrors.value),
+    submitAttemptsCount: state.submitAttemptsCount.value,
+    isSubmitAttempted: state.isSubmitAttempted.value,
+    wasSubmitted: state.wasSubmitted.value,
+  };
+}
@@ -0,0 +1,280 @@
+import { nextTick, onMounted, watch } from 'vue';
+import { PartialDeep } from 'type-fest';
+import { FormObject, MaybeAsync, Path } from '../types';
+import { cloneDeep, debounce, isEqual, isFileOrBlob, isSSR, warn } from '../utils/common';
+import { unsetPath } from '../utils/path';
+import { isObject, merge } from '../../../shared/src';
+import { BaseFormContext } from './formContext';
+import { FormSnapshot } from './formSnapshot';
+import { FormHistory } from './formHistory';
+
+export interface FormStorageAdapter {
+  getItem(key: string): MaybeAsync<string | null | undefined>;
+  setItem(key: string, value: string): MaybeAsync<void>;
+  removeItem(key: string): MaybeAsync<void>;
+}
+
+export interface FormPersistOptions<TInput extends FormObject = FormObject> {
+  /**
+   * The key to store the form state under.
+   */
+  key: string;
+
+  /**
+   * The storage adapter to use.
+   */
+  storage: FormStorageAdapter;
+
+  /**
+   * The version of the stored form shape, drafts stored with an older version are passed to `migrate`.
+   */
+  version?: number;
+
+  /**
+   * Migrates a draft stored with an older version to the current form shape, drafts are discarded if not provided.
+   */
+  migrate?: (oldVersion: number, data: FormObject) => MaybeAsync<PartialDeep<TInput> | null | undefined>;
+
+  /**
+   * The number of milliseconds to wait after a change before writing to the storage.
+   */
+  debounceMs?: number;
+}
+
+interface PersistedPayload {
+  v: number;
+  values: FormObject;
+}
+
+interface FormPersistenceInit<TForm extends FormObject> {
+  form: BaseFormContext<TForm>;
+  values: TForm;
+  snapshot: FormSnapshot<TForm>;
+  history: FormHistory;
+}
+
+const DEFAULT_PERSIST_DEBOUNCE_MS = 200;
+
+export function useFormPersistence<TForm extends FormObject>(
+  opts: FormPersistOptions<TForm>,
+  { form, values, snapshot, history }: FormPersistenceInit<TForm>,
+) {
+  const version = opts.version ?? 1;
+
+  async function read(): Promise<FormObject | undefined> {
+    const raw = await opts.storage.getItem(opts.key);
+    if (!raw) {
+      return undefined;
+    }
+
+    let payload: PersistedPayload;
+    try {
+      payload = JSON.parse(raw);
+    } catch {
+      warn(`The persisted form state under "${opts.key}" is not valid JSON and will be discarded.`);
+      await clear();
+
+      return undefined;
+    }
+
+    if (payload.v === version) {
+      return payload.values;
+    }
+
+    if (payload.v < version && opts.migrate) {
+      return (await opts.migrate(payload.v, payload.values)) ?? undefined;
+    }
+
+    await clear();
+
+    return undefined;
+  }
+
+  function restore(data: FormObject) {
+    history.untracked(() => {
+      // Fields that mount later should pick up the restored values rather than the initial ones.
+      snapshot.initials.value = merge(cloneDeep(snapshot.initials.value), cloneDeep(data));
+      form.setValues(data as Partial<TForm>, { behavior: 'merge' });
+      for (const path of collectLeafPaths(data)) {
+        const value = form.getValue(path as Path<TForm>);
+        form.setDirty(path as Path<TForm>, !isEqual(form.getFieldOriginalValue(path as Path<TForm>), value));
+      }
+    });
+  }
+
+  function serialize(): FormObject {
+    const data = cloneDeep(values) as FormObject;
+    for (const path of form.getDisabledPaths()) {
+      unsetPath(data, path, true);
+    }
+
+    return stripFiles(data);
+  }
+
+  const persist = debounce(opts.debounceMs ?? DEFAULT_PERSIST_DEBOUNCE_MS, () => save().catch(warnStorageError));
+
+  function warnStorageError(err: unknown) {
+    warn(`The persisted form state under "${opts.key}" could not be accessed: ${err}`);
+  }
+
+  async function save() {
+    const data = serialize();
+    // There is nothing worth keeping if the form is back to its original state.
+    if (isEqual(data, stripFiles(cloneDeep(snapshot.originals.value) as FormObject))) {
+      await clear();
+      return;
+    }
+
+    await opts.storage.setItem(opts.key, JSON.stringify({ v: version, values: data } satisfies PersistedPayload));
+  }
+
+  async function clear() {
+    // A pending save would write the draft back after it was cleared.
+    persist.cancel();
+    await opts.storage.removeItem(opts.key);
+  }
+
+  if (!isSSR) {
+    let isRestored = false;
+
+    // Restoring happens once the initial values are available and the mounted fields have initialized their paths,
+    // so they don't override the restored values.
+    onMounted(async () => {
+      await snapshot.ready;
+      await nextTick();
+      try {
+        const data = await read();
+        if (data) {
+          restore(data);
+        }
+      } catch (err) {
+        warnStorageError(err);
+      }
+
+      isRestored = true;
+    });
+
+    watch(
+      values,
+      () => {
+        if (isRestored) {
+          persist();
+        }
+      },
+      { deep: true },
+    );
+  }
+
+  return {
+    clear: () => clear().catch(warnStorageError),
+  };
+}
+
+function collectLeafPaths(data: FormObject, prefix = ''): string[] {
+  return Object.entries(data).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    return isObject(value) ? collectLeafPaths(value, path) : [path];
+  });
+}
+
+/**
+ * Files and blobs cannot be serialized, so they are dropped from the persisted state.
+ * Array items are replaced with `null` instead, so the items after them keep their indexes.
+ */
+function stripFiles<TValue>(value: TValue): TValue {
+  if (Array.isArray(value)) {
+    return value.map(item => (isFileOrBlob(item) ? null : stripFiles(item))) as TValue;
+  }
+
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => !isFileOrBlob(v))
+        .map(([k, v]) => [k, stripFiles(v)]),
+    ) as TValue;
+  }
+
+  return value;
+}
+
+function createWebStorageAdapter(getStorage: () => Storage): FormStorageAdapter {
+  return {
+    getItem: key => (isSSR ? null : getStorage().getItem(key)),
+    setItem: (key, value) => {
+      if (!isSSR) {
+        getStorage().setItem(key, value);
+      }
+    },
+    removeItem: key => {
+      if (!isSSR) {
+        getStorage().removeItem(key);
+      }
+    },
+  };
+}
+
+/**
+ * Creates a storage adapter that persists form state in `localStorage`.
+ */
+export function createLocalStorageAdapter(): FormStorageAdapter {
+  return createWebStorageAdapter(() => window.localStorage);
+}
+
+/**
+ * Creates a storage adapter that persists form state in `sessionStorage`.
+ */
+export function createSessionStorageAdapter(): FormStorageAdapter {
+  return createWebStorageAdapter(() => window.sessionStorage);
+}
+
+export interface IndexedDBAdapterOptions {
+  dbName?: string;
+  storeName?: string;
+}
+
+/**
+ * Creates a storage adapter that persists form state in an IndexedDB object store.
+ */
+export function createIndexedDBAdapter(opts?: IndexedDBAdapterOptions): FormStorageAdapter {
+  const dbName = opts?.dbName ?? 'formwerk';
+  const storeName = opts?.storeName ?? 'forms';
+  let db: Promise<IDBDatabase> | undefined;
+
+  function open() {
+    if (!db) {
+      db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(dbName, 1);
+        req.onupgradeneeded = () => req.result.createObjectStore(storeName);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+
+    return db;
+  }
+
+  async function run<TResult>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<TResult>) {
+    const database = await open();
+
+    return new Promise<TResult>((resolve, reject) => {
+      const req = fn(database.transaction(storeName, mode).objectStore(storeName));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  return {
+    getItem: key => (isSSR ? null : run<string | undefined>('readonly', store => store.get(key))),
+    setItem: async (key, value) => {
+      if (!isSSR) {
+        await run('readwrite', store => store.put(value, key));
+      }
+    },
+    removeItem: async key => {
+      if (!isSSR) {
+        await run('readwrite', store => store.delete(key));
+      }
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { FormObject, FormValidationResult, MaybeAsync } from '../types';
+import { getConfig } from '../config';
+import type { BaseFormContext } from './formContext';
+import type { ConsumableData } from './useFormActions';
+
+export interface FormPlugin<TForm extends FormObject = FormObject, TOutput extends FormObject = TForm> {
+  /**
+   * The plugin name, used for debugging.
+   */
+  name?: string;
+
+  /**
+   * Called once the form is created with a handle to the form context.
+   */
+  onInit?(form: BaseFormContext<TForm>): void;
+
+  /**
+   * Called after a form path value changes.
+   */
+  onValueChange?(path: string, value: unknown, oldValue: unknown): void;
+
+  /**
+   * Called after the form is validated.
+   */
+  onValidate?(result: FormValidationResult<TOutput>): void;
+
+  /**
+   * Called before a valid submission is handed to the submit handler, returning `false` cancels the submission.
+   */
+  beforeSubmit?(data: ConsumableData<TOutput>): MaybeAsync<boolean | void>;
+
+  /**
+   * Called after the submit handler completes successfully.
+   */
+  afterSubmit?(data: ConsumableData<TOutput>, result: unknown): void;
+
+  /**
+   * Called with the error thrown by the submit handler.
+   */
+  onSubmitError?(error: unknown): void;
+}
+
+export interface FormPluginHost<TForm extends FormObject = FormObject, TOutput extends FormObject = TForm> {
+  /**
+   * Whether any of the plugins listens to value changes, previous values are only captured when this is true.
+   */
+  watchesValues: boolean;
+  init(form: BaseFormContext<TForm>): void;
+  valueChanged(path: string, value: unknown, oldValue: unknown): void;
+  validated(result: FormValidationResult<TOutput>): void;
+  beforeSubmit(data: ConsumableData<TOutput>): Promise<boolean>;
+  afterSubmit(data: ConsumableData<TOutput>, result: unknown): void;
+  submitFailed(error: unknown): void;
+}
+
+/**
+ * Combines the globally configured plugins with the form's own plugins.
+ */
+export function createFormPlugins<TForm extends FormObject, TOutput extends FormObject = TForm>(
+  formPlugins: FormPlugin<TForm, TOutput>[] = [],
+): FormPluginHost<TForm, TOutput> | undefined {
+  const plugins = [...(getConfig().plugins as FormPlugin<TForm, TOutput>[]), ...formPlugins];
+  if (!plugins.length) {
+    return undefined;
+  }
+
+  return {
+    watchesValues: plugins.some(plugin => !!plugin.onValueChange),
+    init: form => plugins.forEach(plugin => plugin.onInit?.(form)),
+    valueChanged: (path, value, oldValue) => plugins.forEach(plugin => plugin.onValueChange?.(path, value, oldValue)),
+    validated: result => plugins.forEach(plugin => plugin.onValidate?.(result)),
+    beforeSubmit: async data => {
+      for (const plugin of plugins) {
+        if ((await plugin.beforeSubmit?.(data)) === false) {
+          return false;
+        }
+      }
+
+      return true;
+    },
+    afterSubmit: (data, result) => plugins.forEach(plugin => plugin.afterSubmit?.(data, result)),
+    submitFailed: error => plugins.forEach(plugin => plugin.onSubmitError?.(error)),
+  };
+}
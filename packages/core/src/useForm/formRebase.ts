@@ -0,0 +1,105 @@
+import { isPlainObject } from '../../../shared/src';
+import { cloneDeep, isEqual } from '../utils/common';
+
+/**
+ * How to resolve the paths that were changed both by the user and by the new initial values.
+ * - `keep-local`: The user's edits are kept.
+ * - `keep-remote`: The new initial values replace the user's edits.
+ */
+export type RebaseStrategy = 'keep-local' | 'keep-remote';
+
+export interface RebaseOptions {
+  /**
+   * How to resolve conflicting paths, defaults to `keep-local`. Conflicts are reported either way.
+   */
+  strategy?: RebaseStrategy;
+}
+
+export interface RebaseConflict {
+  /**
+   * The path that was changed both by the user and by the new initial values.
+   */
+  path: string;
+
+  /**
+   * The original value both changes were made against.
+   */
+  base: unknown;
+
+  /**
+   * The value the user entered.
+   */
+  local: unknown;
+
+  /**
+   * The new initial value.
+   */
+  remote: unknown;
+}
+
+export interface RebaseResult<TForm> {
+  values: TForm;
+  conflicts: RebaseConflict[];
+  /**
+   * The paths that kept the user's edits, they are still dirty after the rebase.
+   */
+  localPaths: string[];
+}
+
+/**
+ * Merges the user's edits made against `base` into the new `remote` values.
+ * Objects are merged key by key while arrays are compared as a whole, similar to merge patches.
+ * Keys missing from `remote` are considered unchanged, so partial values only update the keys they have.
+ */
+export function rebaseValues<TForm>(
+  base: unknown,
+  local: unknown,
+  remote: TForm,
+  strategy: RebaseStrategy,
+): RebaseResult<TForm> {
+  const conflicts: RebaseConflict[] = [];
+  const localPaths: string[] = [];
+
+  function merge(base: unknown, local: unknown, remote: unknown, path: string): unknown {
+    if (isRecord(local) && isRecord(remote)) {
+      const baseRecord = isRecord(base) ? base : {};
+      const merged: Record<string, unknown> = {};
+      const keys = new Set([...Object.keys(baseRecord), ...Object.keys(local), ...Object.keys(remote)]);
+      for (const key of keys) {
+        const remoteValue = key in remote ? remote[key] : baseRecord[key];
+        const value = merge(baseRecord[key], local[key], remoteValue, path ? `${path}.${key}` : key);
+        // Keys removed on both sides are dropped rather than kept as `undefined`.
+        if (value !== undefined || key in local || key in remote) {
+          merged[key] = value;
+        }
+      }
+
+      return merged;
+    }
+
+    if (isEqual(base, local) || isEqual(local, remote)) {
+      return cloneDeep(remote);
+    }
+
+    if (!isEqual(base, remote)) {
+      conflicts.push({ path, base: cloneDeep(base), local: cloneDeep(local), remote: cloneDeep(remote) });
+      if (strategy === 'keep-remote') {
+        return cloneDeep(remote);
+      }
+    }
+
+    localPaths.push(path);
+
+    return cloneDeep(local);
+  }
+
+  return {
+    values: merge(base, local, remote, '') as TForm,
+    conflicts,
+    localPaths,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return isPlainObject(value);
+}
@@ -0,0 +1,101 @@
+import { computed, nextTick, watch } from 'vue';
+import { FormObject, Path } from '../types';
+
+export interface FormRule<TForm extends FormObject = FormObject> {
+  /**
+   * The form path the rule applies to.
+   */
+  path: Path<TForm>;
+
+  /**
+   * The path is disabled unless this returns `true`.
+   */
+  enabledWhen?: (values: TForm) => boolean;
+
+  /**
+   * The path is hidden unless this returns `true`, hidden paths are also disabled.
+   */
+  visibleWhen?: (values: TForm) => boolean;
+
+  /**
+   * Whether the path value should be unset when it becomes hidden.
+   */
+  unsetWhenHidden?: boolean;
+}
+
+export interface FormRules {
+  /**
+   * Checks if the path or any of its parents are disabled by a rule.
+   */
+  isPathDisabled(path: string): boolean;
+  /**
+   * Checks if the path or any of its parents are hidden by a rule.
+   */
+  isPathHidden(path: string): boolean;
+  /**
+   * Gets the paths that are currently disabled by rules.
+   */
+  getDisabledPaths(): string[];
+}
+
+interface RuleState {
+  path: string;
+  disabled: boolean;
+  hidden: boolean;
+}
+
+export interface FormRulesInit<TForm extends FormObject> {
+  values: TForm;
+  onHidden: (path: Path<TForm>) => void;
+}
+
+export function createFormRules<TForm extends FormObject>(
+  rules: FormRule<TForm>[],
+  { values, onHidden }: FormRulesInit<TForm>,
+): FormRules {
+  const states = computed<RuleState[]>(() =>
+    rules.map(rule => {
+      const hidden = rule.visibleWhen ? !rule.visibleWhen(values) : false;
+
+      return {
+        path: rule.path,
+        hidden,
+        disabled: hidden || (rule.enabledWhen ? !rule.enabledWhen(values) : false),
+      };
+    }),
+  );
+
+  function matches(state: RuleState, path: string) {
+    return path === state.path || path.startsWith(`${state.path}.`) || path.startsWith(`${state.path}[`);
+  }
+
+  function isPathDisabled(path: string) {
+    return states.value.some(state => state.disabled && matches(state, path));
+  }
+
+  function isPathHidden(path: string) {
+    return states.value.some(state => state.hidden && matches(state, path));
+  }
+
+  function getDisabledPaths() {
+    return states.value.filter(state => state.disabled).map(state => state.path);
+  }
+
+  function unsetHidden(hidden: boolean[], oldHidden?: boolean[]) {
+    rules.forEach((rule, idx) => {
+      if (rule.unsetWhenHidden && hidden[idx] && !oldHidden?.[idx]) {
+        onHidden(rule.path);
+      }
+    });
+  }
+
+  watch(() => states.value.map(state => state.hidden), unsetHidden);
+  // Rules are created along with the form context, so the paths hidden from the start are unset once it is ready.
+  nextTick(() => unsetHidden(states.value.map(state => state.hidden)));
+
+  return {
+    isPathDisabled,
+    isPathHidden,
+    getDisabledPaths,
+  };
+}
@@ -10,6 +10,10 @@ interface FormSnapshotOptions<TForm extends FormObject, TOutput extends FormObje
 export interface FormSnapshot<TForm extends FormObject> {
   initials: Ref<TForm>;
   originals: Ref<TForm>;
+  /**
+   * Resolves once the initial state is available, which may be later than creation if it was provided asynchronously.
+   */
+  ready: Promise<void>;
 }
 
 export function useFormSnapshots<TForm extends FormObject, TOutput extends FormObject = TForm>(
@@ -20,9 +24,10 @@ export function useFormSnapshots<TForm extends FormObject, TOutput extends FormO
   const initials = shallowRef<TForm>({} as TForm) as Ref<TForm>;
   const originals = shallowRef<TForm>({} as TForm) as Ref<TForm>;
 
+  let ready = Promise.resolve();
   const provided = toValue(provider);
   if (isPromise(provided)) {
-    provided.then(resolved => {
+    ready = provided.then(resolved => {
       const inits = resolved;
       initials.value = cloneDeep(inits || {}) as TForm;
       originals.value = cloneDeep(inits || {}) as TForm;
@@ -37,5 +42,6 @@ export function useFormSnapshots<TForm extends FormObject, TOutput extends FormO
   return {
     initials,
     originals,
+    ready,
   };
 }
@@ -0,0 +1,125 @@
+import { watch } from 'vue';
+import { FormObject, Path, PathValue } from '../types';
+import { cloneDeep, isEqual, normalizeArrayable } from '../utils/common';
+import { getFromPath } from '../utils/path';
+
+/**
+ * What caused a value change.
+ * - `user`: A field or a `setValue` call.
+ * - `setValues`: A `setValues` call.
+ * - `reset`: The form values were reverted, usually by `reset`.
+ * - `rebase`: The form was rebased on new initial values with `rebase`.
+ * - `transaction`: A field was mounted, unmounted or had its path changed.
+ */
+export type ValueChangeSource = 'user' | 'setValues' | 'reset' | 'rebase' | 'transaction';
+
+export interface ValueChangeContext {
+  /**
+   * What caused the change, it is `undefined` when the callback runs immediately.
+   */
+  source: ValueChangeSource | undefined;
+}
+
+export interface ValueChangeOptions {
+  /**
+   * Whether to also fire when a nested value under the watched paths changes.
+   */
+  deep?: boolean;
+  /**
+   * Whether to fire the callback immediately with the current values.
+   */
+  immediate?: boolean;
+}
+
+export type ValueChangeCallback<TValue> = (
+  value: TValue,
+  oldValue: TValue | undefined,
+  ctx: ValueChangeContext,
+) => void;
+
+export interface FormValueWatchers<TForm extends FormObject = FormObject> {
+  onValueChange<TPath extends Path<TForm>>(
+    path: TPath,
+    cb: ValueChangeCallback<PathValue<TForm, TPath>>,
+    opts?: ValueChangeOptions,
+  ): () => void;
+  onValueChange<TPath extends Path<TForm>>(
+    paths: TPath[],
+    cb: ValueChangeCallback<PathValue<TForm, TPath>[]>,
+    opts?: ValueChangeOptions,
+  ): () => void;
+  /**
+   * Runs the given function with the changes it makes attributed to the given source.
+   */
+  withSource<TReturns>(source: ValueChangeSource, fn: () => TReturns): TReturns;
+}
+
+export function createValueWatchers<TForm extends FormObject>(values: TForm): FormValueWatchers<TForm> {
+  let batchSource: ValueChangeSource | undefined;
+  const pending = new Set<(source: ValueChangeSource) => void>();
+
+  function withSource<TReturns>(source: ValueChangeSource, fn: () => TReturns): TReturns {
+    // The outermost source wins, a reset is still a reset even if it sets the values under the hood.
+    if (batchSource) {
+      return fn();
+    }
+
+    batchSource = source;
+    try {
+      return fn();
+    } finally {
+      batchSource = undefined;
+      // Watchers are notified once the batch is done, so intermediate states like cleared values are never observed.
+      const notifiers = [...pending];
+      pending.clear();
+      notifiers.forEach(notify => notify(source));
+    }
+  }
+
+  function onValueChange(paths: string | string[], cb: ValueChangeCallback<unknown>, opts?: ValueChangeOptions) {
+    const isMultiple = Array.isArray(paths);
+    const pathList = normalizeArrayable(paths);
+    const read = () => pathList.map(path => getFromPath(values, path));
+    const unwrap = (current: unknown[]) => (isMultiple ? current : current[0]);
+    let previous = cloneDeep(read());
+
+    function notify(source: ValueChangeSource) {
+      const current = read();
+      if (isEqual(current, previous)) {
+        return;
+      }
+
+      const oldValue = previous;
+      previous = cloneDeep(current);
+      cb(unwrap(current), unwrap(oldValue), { source });
+    }
+
+    // Changes are tracked synchronously so they can be attributed to the batch that made them.
+    const stop = watch(
+      read,
+      () => {
+        if (batchSource) {
+          pending.add(notify);
+          return;
+        }
+
+        notify('user');
+      },
+      { deep: opts?.deep, flush: 'sync' },
+    );
+
+    if (opts?.immediate) {
+      cb(unwrap(read()), undefined, { source: undefined });
+    }
+
+    return () => {
+      stop();
+      pending.delete(notify);
+    };
+  }
+
+  return {
+    onValueChange: onValueChange as FormValueWatchers<TForm>['onValueChange'],
+    withSource,
+  };
+}
@@ -1 +1,28 @@
 export * from './useForm';
+export {
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createIndexedDBAdapter,
+  type FormStorageAdapter,
+  type FormPersistOptions,
+  type IndexedDBAdapterOptions,
+} from './formPersistence';
+export type { ResetFieldOptions } from './useFormActions';
+export type { FormFieldEntry, FormFieldKind } from './formFields';
+export type { FormStatePayload } from './formHydration';
+export type { RebaseConflict, RebaseOptions, RebaseStrategy } from './formRebase';
+export type { FormRule } from './formRules';
+export type { DerivedValues } from './formDerived';
+export {
+  parseProblemDetailsErrors,
+  parseJsonApiErrors,
+  parseFieldErrorsMap,
+  type ServerErrorMapper,
+} from './serverErrors';
+export type { FormPlugin } from './formPlugins';
+export type {
+  ValueChangeSource,
+  ValueChangeContext,
+  ValueChangeOptions,
+  ValueChangeCallback,
+} from './formValueWatchers';
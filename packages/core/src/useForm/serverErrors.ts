@@ -0,0 +1,140 @@
+import { isObject } from '../../../shared/src';
+import { IssueCollection } from '../types';
+import { normalizePath } from '../utils/path';
+
+/**
+ * Maps a server error response to a list of issues, returns `undefined` if the payload is not recognized.
+ */
+export type ServerErrorMapper = (payload: unknown) => IssueCollection[] | undefined;
+
+/**
+ * Parses RFC 7807 problem details responses with an `invalid-params` extension member.
+ * @example
+ * ```json
+ * { "type": "...", "invalid-params": [{ "name": "email", "reason": "must be a valid email" }] }
+ * ```
+ */
+export const parseProblemDetailsErrors: ServerErrorMapper = payload => {
+  if (!isObject(payload) || !Array.isArray(payload['invalid-params'])) {
+    return undefined;
+  }
+
+  return groupIssues(
+    payload['invalid-params']
+      .filter(isObject)
+      .map(param => [toFormPath(String(param.name ?? '')), String(param.reason ?? param.detail ?? '')]),
+  );
+};
+
+/**
+ * Parses JSON:API error documents, the `source.pointer` of each error is mapped to the attribute path.
+ * @example
+ * ```json
+ * { "errors": [{ "detail": "must be a valid email", "source": { "pointer": "/data/attributes/email" } }] }
+ * ```
+ */
+export const parseJsonApiErrors: ServerErrorMapper = payload => {
+  if (!isObject(payload) || !Array.isArray(payload.errors)) {
+    return undefined;
+  }
+
+  const errors = payload.errors.filter(isObject);
+  if (!errors.every(error => isObject(error.source) || 'detail' in error || 'title' in error)) {
+    return undefined;
+  }
+
+  return groupIssues(
+    errors.map(error => {
+      const pointer = isObject(error.source) ? String(error.source.pointer ?? '') : '';
+
+      return [pointerToPath(pointer), String(error.detail ?? error.title ?? '')];
+    }),
+  );
+};
+
+/**
+ * Parses Laravel and Rails style responses that map field names to lists of messages, optionally nested under `errors`.
+ * @example
+ * ```json
+ * { "message": "The given data was invalid.", "errors": { "email": ["The email must be a valid email address."] } }
+ * ```
+ */
+export const parseFieldErrorsMap: ServerErrorMapper = payload => {
+  if (!isObject(payload)) {
+    return undefined;
+  }
+
+  const map = isObject(payload.errors) ? payload.errors : payload;
+  const entries = Object.entries(map).filter((entry): entry is [string, unknown[]] => Array.isArray(entry[1]));
+  if (!entries.length) {
+    return undefined;
+  }
+
+  return groupIssues(
+    entries.flatMap(([path, messages]) =>
+      messages.map<[string, string]>(message => [toFormPath(path), String(message)]),
+    ),
+  );
+};
+
+export const defaultServerErrorMappers: ServerErrorMapper[] = [
+  parseProblemDetailsErrors,
+  parseJsonApiErrors,
+  parseFieldErrorsMap,
+];
+
+/**
+ * Maps the payload with the given mapper, or with the first built-in mapper that recognizes it.
+ */
+export function mapServerErrors(payload: unknown, mapper?: ServerErrorMapper): IssueCollection[] {
+  if (mapper) {
+    return mapper(payload) ?? [];
+  }
+
+  for (const defaultMapper of defaultServerErrorMappers) {
+    const issues = defaultMapper(payload);
+    if (issues) {
+      return issues;
+    }
+  }
+
+  return [];
+}
+
+function groupIssues(entries: [string, string][]): IssueCollection[] {
+  const issues = new Map<string, string[]>();
+  for (const [path, message] of entries) {
+    if (!message) {
+      continue;
+    }
+
+    issues.set(path, [...(issues.get(path) ?? []), message]);
+  }
+
+  return [...issues].map(([path, messages]) => ({ path, messages }));
+}
+
+/**
+ * Converts bracket notation like `items[0][name]` and JSON pointers to dot paths.
+ */
+function toFormPath(name: string) {
+  if (name.startsWith('/')) {
+    return pointerToPath(name);
+  }
+
+  return normalizePath(name.replace(/\[([^\]]*)]/g, '.$1').replace(/^\./, ''));
+}
+
+function pointerToPath(pointer: string) {
+  const segments = pointer
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  // JSON:API documents nest the resource fields under `/data/attributes` or `/data/relationships`.
+  if (segments[0] === 'data' && (segments[1] === 'attributes' || segments[1] === 'relationships')) {
+    segments.splice(0, 2);
+  }
+
+  return normalizePath(segments.join('.'));
+}
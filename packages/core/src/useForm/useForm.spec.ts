@@ -1,11 +1,18 @@
 import { flush, renderSetup, defineStandardSchema } from '@test-utils/index';
 import { useForm } from './useForm';
 import { useFormField } from '../useFormField';
-import { Component, nextTick, Ref, ref } from 'vue';
+import { Component, createSSRApp, nextTick, Ref, ref } from 'vue';
+import { renderToString } from 'vue/server-renderer';
 import { useInputValidity } from '../validation/useInputValidity';
 import { fireEvent, render, screen } from '@testing-library/vue';
 import { useTextField } from '../useTextField';
 import { StandardSchema } from '../types';
+import { createLocalStorageAdapter, FormStorageAdapter } from './formPersistence';
+import { FormPlugin } from './formPlugins';
+import { FormStatePayload } from './formHydration';
+import { configure } from '../config';
+import { ConsumableData } from './useFormActions';
+import { appendToFormData, fromFormData } from '../utils/formData';
 
 describe('form values', () => {
   test('it initializes form values', async () => {
@@ -266,6 +273,92 @@ describe('form reset', () => {
     expect(values).toEqual({ foo: 'baz' });
     expect(isTouched('foo')).toBe(true);
   });
+
+  test('can reset a single field without affecting the rest of the form', async () => {
+    const form = await renderSetup(() => {
+      return useForm({ initialValues: { foo: 'bar', baz: 'qux' } });
+    });
+
+    form.setValue('foo', '');
+    form.setValue('baz', '');
+    form.setTouched('foo', true);
+    form.setErrors('foo', 'error');
+    form.resetField('foo');
+    expect(form.values).toEqual({ foo: 'bar', baz: '' });
+    expect(form.isTouched('foo')).toBe(false);
+    expect(form.isDirty('foo')).toBe(false);
+    expect(form.getErrors('foo')).toEqual([]);
+    expect(form.isDirty('baz')).toBe(true);
+  });
+
+  test('can reset a single field to a new initial value', async () => {
+    const form = await renderSetup(() => {
+      return useForm({ initialValues: { foo: 'bar', baz: 'qux' } });
+    });
+
+    form.setTouched('foo', true);
+    form.setErrors('foo', 'error');
+    form.resetField('foo', { value: 'new', keepTouched: true, keepErrors: true });
+    expect(form.values).toEqual({ foo: 'new', baz: 'qux' });
+    expect(form.isDirty('foo')).toBe(false);
+    expect(form.isTouched('foo')).toBe(true);
+    expect(form.getErrors('foo')).toEqual(['error']);
+
+    form.setValue('foo', '');
+    form.reset();
+    expect(form.values).toEqual({ foo: 'new', baz: 'qux' });
+  });
+
+  test('resetting a field keeps the errors of sibling fields sharing its prefix', async () => {
+    const form = await renderSetup(() => {
+      return useForm<any>({ initialValues: { email: '', emailConfirm: '', address: { street: '' } } });
+    });
+
+    form.applyServerErrors({ email: ['Taken'], emailConfirm: ['Mismatch'] });
+    form.setErrors('email', 'error');
+    form.setErrors('emailConfirm', 'mismatch');
+    form.resetField('email');
+    expect(form.getErrors('emailConfirm')).toEqual(['mismatch']);
+    expect(form.getSubmitError('email')).toBeUndefined();
+    expect(form.getSubmitError('emailConfirm')).toBe('Mismatch');
+
+    form.setErrors('email', 'invalid');
+    expect(form.getErrors('email')).toEqual(['invalid']);
+
+    form.setErrors('address.street', 'error');
+    form.resetField('address');
+    expect(form.getErrors('address.street')).toEqual([]);
+  });
+
+  test('removes reset paths that have no original value', async () => {
+    const form = await renderSetup(() => {
+      return useForm<any>({ initialValues: { foo: 'bar', address: { city: 'Cairo' } } });
+    });
+
+    form.setValue('extra', 'value');
+    form.setValue('address.zip', '123');
+    form.resetField('extra');
+    form.resetGroup('address');
+    expect(Object.keys(form.values)).toEqual(['foo', 'address']);
+    expect(Object.keys(form.values.address)).toEqual(['city']);
+    expect(form.isDirty()).toBe(false);
+  });
+
+  test('can reset a group of fields by their path prefix', async () => {
+    const form = await renderSetup(() => {
+      return useForm<any>({ initialValues: { address: { city: 'Cairo', zip: '123' }, name: 'foo' } });
+    });
+
+    form.setValue('address.city', 'Giza');
+    form.setValue('address.zip', '456');
+    form.setValue('name', 'bar');
+    form.setTouched('address.city', true);
+    form.resetGroup('address');
+    expect(form.values).toEqual({ address: { city: 'Cairo', zip: '123' }, name: 'bar' });
+    expect(form.isDirty('address')).toBe(false);
+    expect(form.isTouched('address.city')).toBe(false);
+    expect(form.isDirty('name')).toBe(true);
+  });
 });
 
 describe('form submit', () => {
@@ -282,6 +375,53 @@ describe('form submit', () => {
     expect(cb).toHaveBeenCalledWith({ foo: 'bar' });
   });
 
+  test('provides patches of the changed values', async () => {
+    const cb = vi.fn();
+    const form = await renderSetup(() => {
+      return useForm<any>({ initialValues: { name: 'foo', address: { city: 'Cairo', zip: '123' }, tags: ['a'] } });
+    });
+
+    form.setValue('address.city', 'Giza');
+    form.setValue('tags', ['a', 'b']);
+    await form.handleSubmit(v => cb(v.toPatch(), v.toJSONPatch()))();
+
+    expect(cb).toHaveBeenCalledWith({ address: { city: 'Giza' }, tags: ['a', 'b'] }, [
+      { op: 'replace', path: '/address/city', value: 'Giza' },
+      { op: 'add', path: '/tags/1', value: 'b' },
+    ]);
+  });
+
+  test('patches carry the schema output without reporting its transforms as changes', async () => {
+    const cb = vi.fn();
+    const schema = defineStandardSchema<any, any>(value => ({
+      value: { ...(value as object), age: Number((value as { age: string }).age) },
+    }));
+    const form = await renderSetup(() => {
+      return useForm<any>({ schema, initialValues: { name: 'foo', age: '30' } });
+    });
+
+    await form.handleSubmit(v => cb(v.toPatch(), v.toJSONPatch()))();
+    expect(cb).toHaveBeenLastCalledWith({}, []);
+
+    form.setValue('age', '31');
+    await form.handleSubmit(v => cb(v.toPatch(), v.toJSONPatch()))();
+    expect(cb).toHaveBeenLastCalledWith({ age: 31 }, [{ op: 'replace', path: '/age', value: 31 }]);
+  });
+
+  test('patches do not include disabled paths', async () => {
+    const cb = vi.fn();
+    const form = await renderSetup(() => {
+      return useForm({ initialValues: { name: 'foo', secret: 'bar' } });
+    });
+
+    form.setValue('name', 'baz');
+    form.setValue('secret', 'qux');
+    form.context.setFieldDisabled('secret', true);
+    await form.handleSubmit(v => cb(v.toPatch(), v.toJSONPatch()))();
+
+    expect(cb).toHaveBeenCalledWith({ name: 'baz' }, [{ op: 'replace', path: '/name', value: 'baz' }]);
+  });
+
   test('submitting sets touched state to true', async () => {
     const { form } = await renderSetup(
       () => {
@@ -637,6 +777,85 @@ describe('form submit', () => {
     expect(formDataKeys.sort()).toEqual(expectedKeys.sort());
   });
 
+  function toEntries(formData: FormData) {
+    const entries: [string, FormDataEntryValue][] = [];
+    formData.forEach((value, key) => entries.push([key, value]));
+
+    return entries;
+  }
+
+  test('can serialize FormData with custom key styles and encodings', async () => {
+    const date = new Date('2024-01-01T00:00:00.000Z');
+    const { form } = await renderSetup(() => {
+      return {
+        form: useForm({
+          initialValues: {
+            user: { name: 'John', tags: ['a', 'b'], links: [{ url: 'x' }] },
+            active: true,
+            date,
+            none: null,
+          },
+        }),
+      };
+    });
+
+    let data!: ConsumableData<any>;
+    await form.handleSubmit(v => (data = v))();
+
+    const dots = data.toFormData({ keyStyle: 'dots', nulls: 'omit', booleans: 'numeric', dates: 'timestamp' });
+    expect(toEntries(dots)).toEqual([
+      ['user.name', 'John'],
+      ['user.tags[0]', 'a'],
+      ['user.tags[1]', 'b'],
+      ['user.links[0].url', 'x'],
+      ['active', '1'],
+      ['date', String(date.getTime())],
+    ]);
+
+    const php = data.toURLSearchParams({ keyStyle: 'php-array' });
+    expect(php.toString()).toBe(
+      'user%5Bname%5D=John&user%5Btags%5D%5B%5D=a&user%5Btags%5D%5B%5D=b&user%5Blinks%5D%5B0%5D%5Burl%5D=x&active=true&date=2024-01-01T00%3A00%3A00.000Z&none=',
+    );
+  });
+
+  test('uses the globally configured FormData options', async () => {
+    configure({ formData: { keyStyle: 'dots', nulls: 'omit', booleans: 'string', dates: 'iso' } });
+    const { form } = await renderSetup(() => {
+      return { form: useForm({ initialValues: { user: { name: 'John', age: null } } }) };
+    });
+
+    let formData!: FormData;
+    await form.handleSubmit(v => (formData = v.toFormData()))();
+    configure({ formData: { keyStyle: 'brackets', nulls: 'empty', booleans: 'string', dates: 'iso' } });
+
+    expect(toEntries(formData)).toEqual([['user.name', 'John']]);
+  });
+
+  test('can parse FormData back into an object', () => {
+    const values = { user: { name: 'John', tags: ['a', 'b'], links: [{ url: 'x' }, { url: 'y' }] } };
+    for (const keyStyle of ['brackets', 'dots', 'php-array'] as const) {
+      const formData = appendToFormData(values, new FormData(), { keyStyle });
+      expect(fromFormData(formData, keyStyle)).toEqual(values);
+    }
+
+    const params = new URLSearchParams('colors=red&colors=blue&size=m');
+    expect(fromFormData(params)).toEqual({ colors: ['red', 'blue'], size: 'm' });
+  });
+
+  test('ignores keys that would modify the object prototypes', () => {
+    const dots = new URLSearchParams('__proto__.polluted=yes&constructor.prototype.polluted=yes&name=John');
+    expect(fromFormData(dots, 'dots')).toEqual({ name: 'John' });
+
+    const brackets = new URLSearchParams('__proto__[polluted]=yes&constructor[prototype][polluted]=yes&name=John');
+    expect(fromFormData(brackets, 'brackets')).toEqual({ name: 'John' });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  test('parses keys named like inherited object members as values', () => {
+    const params = new URLSearchParams('toString=a&valueOf[x]=b&hasOwnProperty.y=c');
+    expect(fromFormData(params, 'dots')).toEqual({ toString: 'a', valueOf: { x: 'b' }, hasOwnProperty: { y: 'c' } });
+  });
+
   test('Adds form values to FormData on native formdata event', async () => {
     const formData = new FormData();
 
@@ -670,9 +889,9 @@ describe('form submit', () => {
     const onSubmit = handleSubmit(v => cb(v.toObject()));
 
     expect(submitAttemptsCount.value).toBe(0);
-    onSubmit(new Event('submit'));
+    await onSubmit(new Event('submit'));
     expect(submitAttemptsCount.value).toBe(1);
-    onSubmit(new Event('submit'));
+    await onSubmit(new Event('submit'));
     expect(submitAttemptsCount.value).toBe(2);
     await reset();
     expect(submitAttemptsCount.value).toBe(0);
@@ -855,6 +1074,1513 @@ describe('form dirty state', () => {
   });
 });
 
+describe('form history', () => {
+  test('can undo and redo value changes', async () => {
+    const { values, setValue, undo, redo, canUndo, canRedo } = await renderSetup(() => {
+      return useForm({ initialValues: { foo: 'bar' } });
+    });
+
+    expect(canUndo.value).toBe(false);
+    setValue('foo', 'baz');
+    await nextTick();
+    expect(canUndo.value).toBe(true);
+    expect(canRedo.value).toBe(false);
+
+    undo();
+    expect(values).toEqual({ foo: 'bar' });
+    expect(canUndo.value).toBe(false);
+    expect(canRedo.value).toBe(true);
+
+    redo();
+    expect(values).toEqual({ foo: 'baz' });
+    expect(canRedo.value).toBe(false);
+  });
+
+  test('groups changes made within the same tick into a single entry', async () => {
+    const { values, setValue, setValues, undo, canUndo } = await renderSetup(() => {
+      return useForm<any>({ initialValues: { foo: 'bar', baz: 'qux' } });
+    });
+
+    setValue('foo', '1');
+    setValue('baz', '2');
+    await nextTick();
+    setValues({ foo: '3' }, { behavior: 'merge' });
+    setValue('baz', '4');
+    await nextTick();
+
+    undo();
+    expect(values).toEqual({ foo: '1', baz: '2' });
+    undo();
+    expect(values).toEqual({ foo: 'bar', baz: 'qux' });
+    expect(canUndo.value).toBe(false);
+  });
+
+  test('entries only restore the paths they changed', async () => {
+    const { values, setValue, undo } = await renderSetup(() => {
+      return useForm<any>({ initialValues: { foo: 'bar', nested: { a: 'a', b: 'b' } } });
+    });
+
+    setValue('nested.a', '1');
+    await nextTick();
+    setValue('foo', '2');
+    await nextTick();
+    setValue('nested.b', '3');
+    undo();
+
+    expect(values).toEqual({ foo: '2', nested: { a: '1', b: 'b' } });
+  });
+
+  test('can undo merged changes to date values', async () => {
+    const { values, setValues, undo, canUndo } = await renderSetup(() => {
+      return useForm<any>({ initialValues: { date: new Date(2020, 0, 1) } });
+    });
+
+    setValues({ date: new Date(2021, 0, 1) }, { behavior: 'merge' });
+    await nextTick();
+    expect(canUndo.value).toBe(true);
+
+    undo();
+    expect(values.date).toEqual(new Date(2020, 0, 1));
+  });
+
+  test('restores the dirty and touched state of changed paths', async () => {
+    const { setValue, setTouched, isDirty, isTouched, undo, redo } = await renderSetup(() => {
+      return useForm({ initialValues: { foo: 'bar' } });
+    });
+
+    setTouched('foo', false);
+    setValue('foo', 'baz');
+    setTouched('foo', true);
+    await nextTick();
+    expect(isDirty('foo')).toBe(true);
+
+    undo();
+    expect(isDirty('foo')).toBe(false);
+    expect(isTouched('foo')).toBe(false);
+
+    redo();
+    expect(isDirty('foo')).toBe(true);
+    expect(isTouched('foo')).toBe(true);
+  });
+
+  test('drops the oldest entries when the history limit is exceeded', async () => {
+    const { values, setValue, undo, canUndo } = await renderSetup(() => {
+      return useForm({ initialValues: { foo: '0' }, historyLimit: 2 });
+    });
+
+    for (const value of ['1', '2', '3']) {
+      setValue('foo', value);
+      await nextTick();
+    }
+
+    undo();
+    undo();
+    expect(canUndo.value).toBe(false);
+    expect(values).toEqual({ foo: '1' });
+  });
+
+  test('new changes clear the redo stack', async () => {
+    const { setValue, undo, canRedo } = await renderSetup(() => {
+      return useForm({ initialValues: { foo: 'bar' } });
+    });
+
+    setValue('foo', 'baz');
+    await nextTick();
+    undo();
+    expect(canRedo.value).toBe(true);
+    setValue('foo', 'qux');
+    await nextTick();
+    expect(canRedo.value).toBe(false);
+  });
+
+  test('does not record field initialization or resets', async () => {
+    const { form } = await renderSetup(
+      () => {
+        return { form: useForm<any>({ initialValues: { foo: 'bar' } }) };
+      },
+      () => {
+        return { field: useFormField({ path: 'field', initialValue: 'init' }) };
+      },
+    );
+
+    await flush();
+    expect(form.values).toEqual({ foo: 'bar', field: 'init' });
+    expect(form.canUndo.value).toBe(false);
+
+    form.setValue('foo', 'baz');
+    await nextTick();
+    expect(form.canUndo.value).toBe(true);
+    await form.reset();
+    expect(form.canUndo.value).toBe(false);
+  });
+
+  test('undoing setValues does not override the fields initialized later', async () => {
+    const isShown = ref(false);
+    let form!: ReturnType<typeof useForm>;
+    await render({
+      components: {
+        TField: { setup: () => useFormField({ path: 'field', initialValue: 'init' }), template: '<span />' },
+      },
+      setup() {
+        form = useForm<any>({ initialValues: { foo: 'bar', nested: { a: 'a' } } });
+
+        return { isShown };
+      },
+      template: `<TField v-if="isShown" />`,
+    });
+
+    await flush();
+    form.setValues({ foo: 'baz', nested: { b: 'b' } }, { behavior: 'merge' });
+    await nextTick();
+    isShown.value = true;
+    await flush();
+    expect(form.values).toEqual({ foo: 'baz', nested: { a: 'a', b: 'b' }, field: 'init' });
+
+    form.undo();
+    expect(form.values).toEqual({ foo: 'bar', nested: { a: 'a' }, field: 'init' });
+  });
+
+  test('does not record unmounting fields', async () => {
+    const isShown = ref(true);
+    let form!: ReturnType<typeof useForm>;
+    await render({
+      components: {
+        TField: { setup: () => useFormField({ path: 'field', initialValue: 'init' }), template: '<span />' },
+      },
+      setup() {
+        form = useForm<any>();
+
+        return { isShown };
+      },
+      template: `<TField v-if="isShown" />`,
+    });
+
+    await flush();
+    isShown.value = false;
+    await flush();
+    expect(form.values).toEqual({});
+    expect(form.canUndo.value).toBe(false);
+  });
+
+  test('history can be disabled', async () => {
+    const { setValue, canUndo } = await renderSetup(() => {
+      return useForm({ initialValues: { foo: 'bar' }, historyLimit: 0 });
+    });
+
+    setValue('foo', 'baz');
+    await nextTick();
+    expect(canUndo.value).toBe(false);
+  });
+});
+
+describe('form persistence', () => {
+  const key = 'form-draft';
+
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  function persistDraft(values: Record<string, unknown>, v = 1) {
+    window.localStorage.setItem(key, JSON.stringify({ v, values }));
+  }
+
+  function readDraft() {
+    const raw = window.localStorage.getItem(key);
+
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  test('restores persisted values without changing the initial values', async () => {
+    persistDraft({ foo: 'draft' });
+    const { form, field } = await renderSetup(
+      () => {
+        return {
+          form: useForm({
+            initialValues: { foo: 'bar', baz: 'qux' },
+            persist: { key, storage: createLocalStorageAdapter() },
+          }),
+        };
+      },
+      () => {
+        return { field: useFormField({ path: 'foo' }) };
+      },
+    );
+
+    await flush();
+    expect(form.values).toEqual({ foo: 'draft', baz: 'qux' });
+    expect(field.fieldValue.value).toBe('draft');
+    expect(form.isDirty('foo')).toBe(true);
+    expect(form.isDirty('baz')).toBe(false);
+    expect(form.context.getFieldOriginalValue('foo')).toBe('bar');
+  });
+
+  test('restores persisted values after async initial values are resolved', async () => {
+    persistDraft({ foo: 'draft' });
+    const { values } = await renderSetup(() => {
+      return useForm({
+        initialValues: async () => ({ foo: 'bar', baz: 'qux' }),
+        persist: { key, storage: createLocalStorageAdapter() },
+      });
+    });
+
+    await flush();
+    expect(values).toEqual({ foo: 'draft', baz: 'qux' });
+  });
+
+  test('persists changes after the debounce period', async () => {
+    const { setValue } = await renderSetup(() => {
+      return useForm({
+        initialValues: { foo: 'bar' },
+        persist: { key, storage: createLocalStorageAdapter(), debounceMs: 100 },
+      });
+    });
+
+    await flush();
+    setValue('foo', 'baz');
+    await nextTick();
+    expect(readDraft()).toBe(null);
+    vi.advanceTimersByTime(100);
+    expect(readDraft()).toEqual({ v: 1, values: { foo: 'baz' } });
+
+    setValue('foo', 'bar');
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    expect(readDraft()).toBe(null);
+  });
+
+  test('does not persist files and disabled paths', async () => {
+    const file = new File(['content'], 'file.txt');
+    const { setValue, context } = await renderSetup(() => {
+      return useForm<any>({
+        initialValues: { foo: 'bar' },
+        persist: { key, storage: createLocalStorageAdapter() },
+      });
+    });
+
+    await flush();
+    context.setFieldDisabled('secret', true);
+    setValue('secret', 'hidden');
+    setValue('file', file);
+    setValue('files', [file]);
+    setValue('foo', 'baz');
+    await nextTick();
+    vi.runAllTimers();
+
+    expect(readDraft()).toEqual({ v: 1, values: { foo: 'baz', files: [null] } });
+  });
+
+  test('keeps the indexes of array items after the dropped files', async () => {
+    const file = new File(['content'], 'file.txt');
+    const { setValue } = await renderSetup(() => {
+      return useForm<any>({
+        initialValues: { attachments: [] },
+        persist: { key, storage: createLocalStorageAdapter() },
+      });
+    });
+
+    await flush();
+    setValue('attachments', [file, { file, caption: 'Second' }, 'third']);
+    await nextTick();
+    vi.runAllTimers();
+    expect(readDraft()).toEqual({ v: 1, values: { attachments: [null, { caption: 'Second' }, 'third'] } });
+
+    const { values } = await renderSetup(() => {
+      return useForm<any>({
+        initialValues: { attachments: [] },
+        persist: { key, storage: createLocalStorageAdapter() },
+      });
+    });
+
+    await flush();
+    expect(values.attachments[1].caption).toBe('Second');
+    expect(values.attachments[2]).toBe('third');
+  });
+
+  test('migrates drafts stored with an older version', async () => {
+    persistDraft({ name: 'draft' }, 1);
+    const migrate = vi.fn((_: number, data: Record<string, any>) => ({ fullName: data.name }));
+    const { values } = await renderSetup(() => {
+      return useForm<any>({
+        initialValues: { fullName: '' },
+        persist: { key, storage: createLocalStorageAdapter(), version: 2, migrate },
+      });
+    });
+
+    await flush();
+    expect(migrate).toHaveBeenCalledWith(1, { name: 'draft' });
+    expect(values).toEqual({ fullName: 'draft' });
+  });
+
+  test('discards drafts with a different version if no migration is provided', async () => {
+    persistDraft({ foo: 'draft' }, 1);
+    const { values } = await renderSetup(() => {
+      return useForm({
+        initialValues: { foo: 'bar' },
+        persist: { key, storage: createLocalStorageAdapter(), version: 2 },
+      });
+    });
+
+    await flush();
+    expect(values).toEqual({ foo: 'bar' });
+    expect(readDraft()).toBe(null);
+  });
+
+  test('supports async storage adapters', async () => {
+    const store = new Map<string, string>([[key, JSON.stringify({ v: 1, values: { foo: 'draft' } })]]);
+    const storage: FormStorageAdapter = {
+      getItem: async k => store.get(k),
+      setItem: async (k, v) => {
+        store.set(k, v);
+      },
+      removeItem: async k => {
+        store.delete(k);
+      },
+    };
+
+    const { values } = await renderSetup(() => {
+      return useForm({ initialValues: { foo: 'bar' }, persist: { key, storage } });
+    });
+
+    await flush();
+    expect(values).toEqual({ foo: 'draft' });
+  });
+
+  test('clears the draft after a successful submission', async () => {
+    persistDraft({ foo: 'draft' });
+    const { handleSubmit } = await renderSetup(() => {
+      return useForm({
+        initialValues: { foo: 'bar' },
+        persist: { key, storage: createLocalStorageAdapter() },
+      });
+    });
+
+    await flush();
+    await handleSubmit(() => {})();
+    await flush();
+    expect(readDraft()).toBe(null);
+  });
+
+  test('does not write the draft back after every successful submission', async () => {
+    const { setValue, handleSubmit } = await renderSetup(() => {
+      return useForm({
+        initialValues: { name: '' },
+        persist: { key, storage: createLocalStorageAdapter(), debounceMs: 100 },
+      });
+    });
+
+    await flush();
+    setValue('name', 'John');
+    await nextTick();
+    await handleSubmit(() => {})();
+    vi.advanceTimersByTime(100);
+    await flush();
+    expect(readDraft()).toBe(null);
+
+    setValue('name', 'Jane');
+    await nextTick();
+    vi.advanceTimersByTime(100);
+    expect(readDraft()).toEqual({ v: 1, values: { name: 'Jane' } });
+    await handleSubmit(() => {})();
+    await flush();
+    expect(readDraft()).toBe(null);
+  });
+
+  test('warns if the storage cannot be accessed', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const storage: FormStorageAdapter = {
+      getItem: async () => {
+        throw new Error('denied');
+      },
+      setItem: async () => {
+        throw new Error('denied');
+      },
+      removeItem: async () => {
+        throw new Error('denied');
+      },
+    };
+
+    const { setValue, handleSubmit } = await renderSetup(() => {
+      return useForm({ initialValues: { foo: 'bar' }, persist: { key, storage, debounceMs: 0 } });
+    });
+
+    await flush();
+    expect(warn).toHaveBeenCalledTimes(1);
+    setValue('foo', 'baz');
+    await flush();
+    expect(warn).toHaveBeenCalledTimes(2);
+    await handleSubmit(() => {})();
+    await flush();
+    expect(warn).toHaveBeenCalledTimes(3);
+    expect(warn).toHaveBeenLastCalledWith(expect.stringContaining('Error: denied'));
+    warn.mockRestore();
+  });
+
+  test('restoring is not recorded in the history', async () => {
+    persistDraft({ foo: 'draft' });
+    const { canUndo } = await renderSetup(() => {
+      return useForm({
+        initialValues: { foo: 'bar' },
+        persist: { key, storage: createLocalStorageAdapter() },
+      });
+    });
+
+    await flush();
+    expect(canUndo.value).toBe(false);
+  });
+});
+
+describe('form rules', () => {
+  test('disables paths with enabledWhen rules and excludes them from submission', async () => {
+    const onSubmit = vi.fn();
+    const { form, vat } = await renderSetup(
+      () => {
+        const form = useForm({
+          initialValues: { isBusiness: false, company: { vat: '123' } },
+          when: [{ path: 'company.vat', enabledWhen: v => !!v.isBusiness }],
+        });
+
+        return { form };
+      },
+      () => {
+        return { vat: useFormField({ path: 'company.vat' }) };
+      },
+    );
+
+    expect(vat.isDisabled.value).toBe(true);
+    expect(form.context.isPathDisabled('company.vat')).toBe(true);
+    await form.handleSubmit(v => onSubmit(v.toObject()))();
+    expect(onSubmit).toHaveBeenLastCalledWith({ isBusiness: false });
+
+    form.setValue('isBusiness', true);
+    await flush();
+    expect(vat.isDisabled.value).toBe(false);
+    await form.handleSubmit(v => onSubmit(v.toObject()))();
+    expect(onSubmit).toHaveBeenLastCalledWith({ isBusiness: true, company: { vat: '123' } });
+  });
+
+  test('hides paths with visibleWhen rules and excludes them from submission', async () => {
+    const onSubmit = vi.fn();
+    const form = await renderSetup(() => {
+      return useForm({
+        initialValues: { hasPet: true, pet: { name: 'Rex' } },
+        when: [{ path: 'pet', visibleWhen: v => !!v.hasPet }],
+      });
+    });
+
+    expect(form.isHidden('pet.name')).toBe(false);
+    form.setValue('hasPet', false);
+    await flush();
+    expect(form.isHidden('pet.name')).toBe(true);
+    expect(form.values.pet).toEqual({ name: 'Rex' });
+    await form.handleSubmit(v => onSubmit(v.toObject()))();
+    expect(onSubmit).toHaveBeenLastCalledWith({ hasPet: false });
+  });
+
+  test('applies the rules to the items of array paths', async () => {
+    const form = await renderSetup(() => {
+      return useForm<any>({
+        initialValues: { hasItems: true, items: [{ name: 'First' }] },
+        when: [{ path: 'items', visibleWhen: v => !!v.hasItems }],
+      });
+    });
+
+    form.setValue('hasItems', false);
+    await flush();
+    expect(form.isHidden('items[0]')).toBe(true);
+    expect(form.isHidden('items[0].name')).toBe(true);
+    expect(form.context.isPathDisabled('items[0].name')).toBe(true);
+    expect(form.isHidden('itemsCount')).toBe(false);
+  });
+
+  test('unsets hidden paths when unsetWhenHidden is set', async () => {
+    const form = await renderSetup(() => {
+      return useForm({
+        initialValues: { hasPet: true, pet: { name: 'Rex' } },
+        when: [{ path: 'pet.name', visibleWhen: v => !!v.hasPet, unsetWhenHidden: true }],
+      });
+    });
+
+    form.setValue('hasPet', false);
+    await flush();
+    expect(form.values.pet).toEqual({});
+  });
+
+  test('unsets the paths that are hidden from the start', async () => {
+    const form = await renderSetup(() => {
+      return useForm({
+        initialValues: { hasPet: false, pet: { name: 'Rex' } },
+        when: [{ path: 'pet.name', visibleWhen: v => !!v.hasPet, unsetWhenHidden: true }],
+      });
+    });
+
+    await flush();
+    expect(form.values.pet).toEqual({});
+  });
+});
+
+describe('derived values', () => {
+  test('keeps derived paths in sync with the values they depend on', async () => {
+    const form = await renderSetup(() => {
+      return useForm({
+        initialValues: { qty: 2, price: 5 },
+        derived: { total: v => Number(v.qty) * Number(v.price) },
+      });
+    });
+
+    expect(form.values).toEqual({ qty: 2, price: 5, total: 10 });
+    form.setValue('qty', 3);
+    expect(form.getValue('total')).toBe(15);
+    form.setValues({ qty: 1, price: 1 });
+    expect(form.getValue('total')).toBe(1);
+  });
+
+  test('derived paths are excluded from dirty tracking and read-only to fields', async () => {
+    const { form, total } = await renderSetup(
+      () => {
+        const form = useForm({
+          initialValues: { qty: 2, price: 5 },
+          derived: { total: v => Number(v.qty) * Number(v.price) },
+        });
+
+        return { form };
+      },
+      () => {
+        return { total: useFormField<number>({ path: 'total' }) };
+      },
+    );
+
+    await flush();
+    expect(total.fieldValue.value).toBe(10);
+    total.setValue(100);
+    expect(total.fieldValue.value).toBe(10);
+    expect(form.isDirty('total')).toBe(false);
+    expect(form.isDirty()).toBe(false);
+
+    form.setValue('qty', 4);
+    expect(total.fieldValue.value).toBe(20);
+    expect(form.isDirty('total')).toBe(false);
+    expect(form.isDirty('qty')).toBe(true);
+  });
+
+  test('text fields bound to derived paths render as readonly', async () => {
+    const TextField: Component = {
+      inheritAttrs: false,
+      setup: (_, { attrs }) => {
+        const name = attrs.name as string;
+        const { inputProps } = useTextField({ name, label: name });
+
+        return { inputProps, name };
+      },
+      template: `<input v-bind="inputProps" :data-testid="name" />`,
+    };
+
+    await render({
+      components: { TextField },
+      setup() {
+        useForm({
+          initialValues: { qty: 2, price: 5 },
+          derived: { total: v => Number(v.qty) * Number(v.price) },
+        });
+
+        return {};
+      },
+      template: `
+        <TextField name="qty" />
+        <TextField name="total" />
+      `,
+    });
+
+    await flush();
+    expect(screen.getByTestId('total')).toHaveAttribute('readonly');
+    expect(screen.getByTestId('qty')).not.toHaveAttribute('readonly');
+  });
+
+  test('derived values are included in the submitted data', async () => {
+    const onSubmit = vi.fn();
+    const form = await renderSetup(() => {
+      return useForm({
+        initialValues: { qty: 2, price: 5 },
+        derived: { total: v => Number(v.qty) * Number(v.price) },
+      });
+    });
+
+    await form.handleSubmit(v => onSubmit(v.toObject()))();
+    expect(onSubmit).toHaveBeenCalledWith({ qty: 2, price: 5, total: 10 });
+  });
+});
+
+describe('server errors', () => {
+  test('applies RFC 7807 invalid-params errors', async () => {
+    const form = await renderSetup(() => useForm());
+
+    form.applyServerErrors({
+      type: 'https://example.net/validation-error',
+      title: 'Your request parameters did not validate.',
+      'invalid-params': [
+        { name: 'age', reason: 'must be a positive integer' },
+        { name: 'items[0].name', reason: 'is required' },
+      ],
+    });
+
+    expect(form.getSubmitError('age')).toBe('must be a positive integer');
+    expect(form.getErrors('items.0.name')).toEqual(['is required']);
+    expect(form.getError('title')).toBeUndefined();
+  });
+
+  test('applies JSON:API errors', async () => {
+    const form = await renderSetup(() => useForm());
+
+    form.applyServerErrors({
+      errors: [
+        { detail: 'must be a valid email', source: { pointer: '/data/attributes/email' } },
+        { detail: 'is too short', source: { pointer: '/data/attributes/address/street' } },
+        { detail: 'is invalid', source: { pointer: '/data/attributes/address/street' } },
+      ],
+    });
+
+    expect(form.getSubmitError('email')).toBe('must be a valid email');
+    expect(form.getErrors('address.street')).toEqual(['is too short', 'is invalid']);
+  });
+
+  test('applies Laravel and Rails style errors', async () => {
+    const form = await renderSetup(() => useForm());
+
+    form.applyServerErrors({
+      message: 'The given data was invalid.',
+      errors: { email: ['The email is taken.'], 'items.1.qty': ['The qty is invalid.'] },
+    });
+
+    expect(form.getSubmitError('email')).toBe('The email is taken.');
+    expect(form.getSubmitError('items.1.qty')).toBe('The qty is invalid.');
+
+    form.applyServerErrors({ 'address[city]': ["can't be blank"] });
+    expect(form.getSubmitError('address.city')).toBe("can't be blank");
+  });
+
+  test('accepts a custom mapper', async () => {
+    const form = await renderSetup(() => useForm());
+
+    const issues = form.applyServerErrors({ field: 'name', msg: 'Taken' }, payload => {
+      const { field, msg } = payload as { field: string; msg: string };
+
+      return [{ path: field, messages: [msg] }];
+    });
+
+    expect(issues).toEqual([{ path: 'name', messages: ['Taken'] }]);
+    expect(form.getSubmitError('name')).toBe('Taken');
+  });
+});
+
+describe('submission lifecycle', () => {
+  function delay(ms: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timeout);
+        reject(new DOMException('Aborted', 'AbortError'));
+      });
+    });
+  }
+
+  test('captures errors thrown by the submit handler', async () => {
+    const onError = vi.fn();
+    const form = await renderSetup(() => {
+      const form = useForm({ initialValues: { foo: 'bar' } });
+      form.onSubmitError(onError);
+
+      return form;
+    });
+
+    const error = new Error('Server is down');
+    const onSubmit = form.handleSubmit(async () => {
+      await delay(100);
+      throw error;
+    });
+
+    const pending = onSubmit();
+    const rejection = expect(pending).rejects.toBe(error);
+    await vi.advanceTimersByTimeAsync(100);
+    await rejection;
+
+    expect(form.isSubmitting.value).toBe(false);
+    expect(form.wasSubmitted.value).toBe(false);
+    expect(form.submitError.value).toBe(error);
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+
+  test('ignores re-submits while a submission is in flight by default', async () => {
+    const cb = vi.fn();
+    const form = await renderSetup(() => useForm({ initialValues: { foo: 'bar' } }));
+    const onSubmit = form.handleSubmit(async () => {
+      cb();
+      await delay(100);
+    });
+
+    const first = onSubmit();
+    await vi.advanceTimersByTimeAsync(10);
+    const second = onSubmit();
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all([first, second]);
+
+    expect(cb).toHaveBeenCalledOnce();
+    expect(form.submitAttemptsCount.value).toBe(1);
+    expect(form.isSubmitting.value).toBe(false);
+  });
+
+  test('aborts the in-flight submission with the abort-previous policy', async () => {
+    const signals: AbortSignal[] = [];
+    const done = vi.fn();
+    const form = await renderSetup(() => useForm({ initialValues: { foo: 'bar' }, resubmitPolicy: 'abort-previous' }));
+    const onSubmit = form.handleSubmit(async (_, { signal }) => {
+      signals.push(signal);
+      await delay(100, signal);
+      done();
+    });
+
+    const first = onSubmit();
+    await vi.advanceTimersByTimeAsync(10);
+    const second = onSubmit();
+    await vi.advanceTimersByTimeAsync(10);
+    expect(signals[0].aborted).toBe(true);
+    expect(form.isSubmitting.value).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all([first, second]);
+
+    expect(done).toHaveBeenCalledOnce();
+    expect(signals[1].aborted).toBe(false);
+    expect(form.submitError.value).toBeUndefined();
+    expect(form.isSubmitting.value).toBe(false);
+  });
+
+  test('runs re-submits one after the other with the queue policy', async () => {
+    const calls: string[] = [];
+    const form = await renderSetup(() => useForm({ initialValues: { foo: 'bar' }, resubmitPolicy: 'queue' }));
+    let count = 0;
+    const onSubmit = form.handleSubmit(async () => {
+      const id = String(++count);
+      calls.push(`start ${id}`);
+      await delay(100);
+      calls.push(`end ${id}`);
+    });
+
+    const first = onSubmit();
+    await vi.advanceTimersByTimeAsync(10);
+    const second = onSubmit();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(form.isSubmitting.value).toBe(true);
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all([first, second]);
+
+    expect(calls).toEqual(['start 1', 'end 1', 'start 2', 'end 2']);
+    expect(form.isSubmitting.value).toBe(false);
+  });
+
+  test('runs the queued re-submits after a failed submission', async () => {
+    const form = await renderSetup(() => useForm({ initialValues: { foo: 'bar' }, resubmitPolicy: 'queue' }));
+    let count = 0;
+    const onSubmit = form.handleSubmit(async () => {
+      await delay(100);
+      if (++count === 1) {
+        throw new Error('Failed');
+      }
+
+      return 'ok';
+    });
+
+    const first = onSubmit();
+    const rejection = expect(first).rejects.toThrow('Failed');
+    await vi.advanceTimersByTimeAsync(10);
+    const second = onSubmit();
+    await vi.advanceTimersByTimeAsync(200);
+
+    await rejection;
+    await expect(second).resolves.toBe('ok');
+    expect(form.wasSubmitted.value).toBe(true);
+  });
+
+  test('retries the last submission', async () => {
+    let shouldFail = true;
+    const cb = vi.fn();
+    const form = await renderSetup(() => useForm({ initialValues: { foo: 'bar' } }));
+    const onSubmit = form.handleSubmit(async data => {
+      await delay(50);
+      if (shouldFail) {
+        throw new Error('Failed');
+      }
+
+      cb(data.toObject());
+    });
+
+    const pending = onSubmit();
+    const rejection = expect(pending).rejects.toThrow('Failed');
+    await vi.advanceTimersByTimeAsync(50);
+    await rejection;
+    expect(form.submitError.value).toBeInstanceOf(Error);
+
+    shouldFail = false;
+    form.setValue('foo', 'baz');
+    const retry = form.retrySubmit();
+    await vi.advanceTimersByTimeAsync(50);
+    await retry;
+
+    expect(form.submitError.value).toBeUndefined();
+    expect(form.wasSubmitted.value).toBe(true);
+    expect(cb).toHaveBeenCalledWith({ foo: 'baz' });
+  });
+});
+
+describe('form plugins', () => {
+  test('calls the plugin lifecycle hooks', async () => {
+    const calls: string[] = [];
+    const plugin: FormPlugin = {
+      onInit: form => calls.push(`init ${form.getValue('foo')}`),
+      onValueChange: (path, value, oldValue) => calls.push(`change ${path} ${oldValue} -> ${value}`),
+      onValidate: result => calls.push(`validate ${result.isValid}`),
+      beforeSubmit: data => {
+        calls.push(`before ${JSON.stringify(data.toObject())}`);
+      },
+      afterSubmit: (_, result) => calls.push(`after ${result}`),
+    };
+
+    const form = await renderSetup(() => useForm({ initialValues: { foo: 'bar' }, plugins: [plugin] }));
+
+    form.setValue('foo', 'baz');
+    await form.handleSubmit(() => 'ok')();
+
+    expect(calls).toEqual(['init bar', 'change foo bar -> baz', 'validate true', 'before {"foo":"baz"}', 'after ok']);
+  });
+
+  test('beforeSubmit can cancel the submission', async () => {
+    const cb = vi.fn();
+    const form = await renderSetup(() =>
+      useForm({ initialValues: { foo: 'bar' }, plugins: [{ beforeSubmit: () => false }] }),
+    );
+
+    await form.handleSubmit(cb)();
+    expect(cb).not.toHaveBeenCalled();
+    expect(form.wasSubmitted.value).toBe(false);
+  });
+
+  test('notifies plugins about submit errors', async () => {
+    const onSubmitError = vi.fn();
+    const error = new Error('Failed');
+    const form = await renderSetup(() => useForm({ initialValues: { foo: 'bar' }, plugins: [{ onSubmitError }] }));
+
+    await expect(
+      form.handleSubmit(() => {
+        throw error;
+      })(),
+    ).rejects.toBe(error);
+
+    expect(onSubmitError).toHaveBeenCalledWith(error);
+  });
+
+  test('runs globally configured plugins before the form plugins', async () => {
+    const calls: string[] = [];
+    configure({ plugins: [{ onInit: () => calls.push('global') }] });
+
+    await renderSetup(() => useForm({ plugins: [{ onInit: () => calls.push('local') }] }));
+    configure({ plugins: [] });
+
+    expect(calls).toEqual(['global', 'local']);
+  });
+});
+
+describe('value change subscriptions', () => {
+  test('fires only when the watched path changes', async () => {
+    const cb = vi.fn();
+    const form = await renderSetup(() => useForm({ initialValues: { foo: 'bar', baz: 'qux' } }));
+
+    form.onValueChange('foo', cb);
+    form.setValue('baz', 'quux');
+    expect(cb).not.toHaveBeenCalled();
+
+    form.setValue('foo', 'test');
+    expect(cb).toHaveBeenCalledTimes(1);
+    expect(cb).toHaveBeenLastCalledWith('test', 'bar', { source: 'user' });
+  });
+
+  test('reports the source of the change', async () => {
+    const sources: unknown[] = [];
+    const form = await renderSetup(() => useForm({ initialValues: { foo: 'bar' } }));
+
+    form.onValueChange('foo', (_, __, { source }) => sources.push(source));
+    form.setValues({ foo: 'baz' });
+    await form.reset();
+
+    expect(sources).toEqual(['setValues', 'reset']);
+  });
+
+  test('does not fire on reset if the value did not change', async () => {
+    const cb = vi.fn();
+    const form = await renderSetup(() => useForm({ initialValues: { foo: 'bar', baz: 'qux' } }));
+
+    form.onValueChange('foo', cb);
+    form.setValue('baz', 'quux');
+    await form.reset();
+
+    expect(cb).not.toHaveBeenCalled();
+  });
+
+  test('attributes field initialization to transactions', async () => {
+    const cb = vi.fn();
+    await renderSetup(
+      () => {
+        const form = useForm();
+        form.onValueChange('field', cb);
+
+        return {};
+      },
+      () => {
+        useFormField({ path: 'field', initialValue: 'init' });
+
+        return {};
+      },
+    );
+
+    await flush();
+    expect(cb).toHaveBeenCalledWith('init', undefined, { source: 'transaction' });
+  });
+
+  test('supports multiple paths, deep and immediate options', async () => {
+    const shallow = vi.fn();
+    const deep = vi.fn();
+    const multiple = vi.fn();
+    const form = await renderSetup(() => useForm<any>({ initialValues: { address: { city: 'Cairo' }, name: 'John' } }));
+
+    form.onValueChange('address', shallow);
+    form.onValueChange('address', deep, { deep: true, immediate: true });
+    form.onValueChange(['address.city', 'name'], multiple);
+    expect(deep).toHaveBeenLastCalledWith({ city: 'Cairo' }, undefined, { source: undefined });
+
+    form.setValue('address.city', 'Giza');
+    expect(shallow).not.toHaveBeenCalled();
+    expect(deep).toHaveBeenLastCalledWith({ city: 'Giza' }, { city: 'Cairo' }, { source: 'user' });
+    expect(multiple).toHaveBeenLastCalledWith(['Giza', 'John'], ['Cairo', 'John'], { source: 'user' });
+  });
+});
+
+describe('field registry', () => {
+  const TextField: Component = {
+    inheritAttrs: false,
+    setup: (_, { attrs }) => {
+      const name = attrs.name as string;
+      const { inputProps } = useTextField({ name, label: `${name} label` });
+
+      return { inputProps, name };
+    },
+    template: `<input v-bind="inputProps" :data-testid="name" />`,
+  };
+
+  test('lists the mounted fields with their metadata and state', async () => {
+    let form!: ReturnType<typeof useForm>;
+    await render({
+      components: { TextField },
+      setup() {
+        form = useForm({ initialValues: { email: '' } });
+
+        return {};
+      },
+      template: `
+        <TextField name="email" />
+        <TextField name="name" />
+      `,
+    });
+
+    await flush();
+    const inputId = screen.getByTestId('email').id;
+    expect(form.getFields()).toEqual([
+      {
+        path: 'email',
+        label: 'email label',
+        kind: 'TextField',
+        inputId,
+        errorMessageId: `${inputId}-r`,
+        errorMessage: undefined,
+        isDisabled: false,
+        isTouched: false,
+        isDirty: false,
+        isValid: true,
+        focus: expect.any(Function),
+      },
+      expect.objectContaining({ path: 'name', label: 'name label', kind: 'TextField' }),
+    ]);
+
+    await fireEvent.update(screen.getByTestId('email'), 'test@example.com');
+    await fireEvent.blur(screen.getByTestId('email'));
+    await flush();
+    form.setErrors('name', 'Required');
+    expect(form.fields.value.map(f => [f.path, f.isDirty, f.isTouched, f.isValid])).toEqual([
+      ['email', true, true, true],
+      ['name', false, false, false],
+    ]);
+  });
+
+  test('unregisters the fields when they are unmounted', async () => {
+    let form!: ReturnType<typeof useForm>;
+    const isShown = ref(true);
+    await render({
+      components: { TextField },
+      setup() {
+        form = useForm();
+
+        return { isShown };
+      },
+      template: `
+        <TextField name="email" />
+        <TextField v-if="isShown" name="name" />
+      `,
+    });
+
+    await flush();
+    expect(form.fields.value.map(f => f.path)).toEqual(['email', 'name']);
+
+    isShown.value = false;
+    await flush();
+    expect(form.fields.value.map(f => f.path)).toEqual(['email']);
+
+    isShown.value = true;
+    await flush();
+    expect(form.fields.value.map(f => f.path)).toEqual(['email', 'name']);
+  });
+
+  test('keeps listing a path while its field is replaced', async () => {
+    let form!: ReturnType<typeof useForm>;
+    const isFirst = ref(true);
+    await render({
+      components: { TextField },
+      setup() {
+        form = useForm();
+
+        return { isFirst };
+      },
+      template: `
+        <TextField v-if="isFirst" key="first" name="email" />
+        <TextField v-else key="second" name="email" />
+      `,
+    });
+
+    await flush();
+    const [first] = form.getFields();
+
+    isFirst.value = false;
+    await nextTick();
+    expect(form.getFields().map(f => f.path)).toEqual(['email']);
+
+    await flush();
+    expect(form.getFields().map(f => f.path)).toEqual(['email']);
+    expect(form.getFields()[0].inputId).not.toBe(first.inputId);
+  });
+});
+
+describe('invalid submission focus', () => {
+  const TextField: Component = {
+    inheritAttrs: false,
+    setup: (_, { attrs }) => {
+      const name = attrs.name as string;
+      const { inputProps } = useTextField({ name, label: name, required: attrs.required as boolean });
+
+      return { inputProps, name };
+    },
+    template: `<input v-bind="inputProps" :data-testid="name" />`,
+  };
+
+  async function renderForm(props: Parameters<typeof useForm>[0]) {
+    await render({
+      components: { TextField },
+      setup() {
+        const { handleSubmit } = useForm(props);
+
+        return { onSubmit: handleSubmit(() => {}) };
+      },
+      template: `
+        <TextField name="name" />
+        <TextField name="email" :required="true" />
+        <button @click="onSubmit">Submit</button>
+      `,
+    });
+
+    await flush();
+  }
+
+  test('focuses the first invalid field without interrupting the scrolling', async () => {
+    await renderForm({ focusInvalidFieldOnSubmit: true });
+    const focus = vi.spyOn(screen.getByTestId('email'), 'focus');
+
+    await fireEvent.click(screen.getByText('Submit'));
+    await flush();
+    expect(screen.getByTestId('email')).toHaveFocus();
+    expect(focus).toHaveBeenCalledWith({ preventScroll: true });
+  });
+
+  test('lets the focus scroll to the field when scrolling is disabled', async () => {
+    await renderForm({ focusInvalidFieldOnSubmit: true, scrollToInvalidFieldOnSubmit: false });
+    const focus = vi.spyOn(screen.getByTestId('email'), 'focus');
+
+    await fireEvent.click(screen.getByText('Submit'));
+    await flush();
+    expect(focus).toHaveBeenCalledWith({ preventScroll: false });
+  });
+
+  test('scrolls to and focuses the first invalid field in document order', async () => {
+    const isShown = ref(false);
+    await render({
+      components: { TextField },
+      setup() {
+        const { handleSubmit } = useForm({ focusInvalidFieldOnSubmit: true });
+
+        return { onSubmit: handleSubmit(() => {}), isShown };
+      },
+      template: `
+        <TextField v-if="isShown" name="first" :required="true" />
+        <TextField name="second" :required="true" />
+        <button @click="onSubmit">Submit</button>
+      `,
+    });
+
+    await flush();
+    isShown.value = true;
+    await flush();
+    const scroll = vi.spyOn(screen.getByTestId('first'), 'scrollIntoView');
+
+    await fireEvent.click(screen.getByText('Submit'));
+    await flush();
+    expect(scroll).toHaveBeenCalled();
+    expect(screen.getByTestId('first')).toHaveFocus();
+  });
+
+  test('does not move the focus by default', async () => {
+    await renderForm({});
+
+    await fireEvent.click(screen.getByText('Submit'));
+    await flush();
+    expect(screen.getByTestId('email')).not.toHaveFocus();
+  });
+});
+
+describe('form rebase', () => {
+  async function renderEditedForm() {
+    const form = await renderSetup(() => {
+      return useForm<any>({
+        initialValues: { title: 'Draft', body: 'Hello', tags: ['a'], meta: { owner: 'Jane', status: 'open' } },
+      });
+    });
+
+    form.setValue('body', 'Hello world');
+    form.setValue('meta.status', 'closed');
+
+    return form;
+  }
+
+  const remote = { title: 'Final', body: 'Hi', tags: ['a', 'b'], meta: { owner: 'John', status: 'open' } };
+
+  test('keeps the non-conflicting edits and reports the conflicts', async () => {
+    const form = await renderEditedForm();
+
+    const conflicts = form.rebase(remote);
+    expect(form.values).toEqual({
+      title: 'Final',
+      body: 'Hello world',
+      tags: ['a', 'b'],
+      meta: { owner: 'John', status: 'closed' },
+    });
+    expect(conflicts).toEqual([{ path: 'body', base: 'Hello', local: 'Hello world', remote: 'Hi' }]);
+    expect(form.conflicts.value).toEqual(conflicts);
+    expect(form.isDirty('title')).toBe(false);
+    expect(form.isDirty('body')).toBe(true);
+    expect(form.isDirty('meta.owner')).toBe(false);
+    expect(form.isDirty('meta.status')).toBe(true);
+  });
+
+  test('can resolve the conflicts with the new initial values', async () => {
+    const form = await renderEditedForm();
+
+    form.rebase(remote, { strategy: 'keep-remote' });
+    expect(form.values).toMatchObject({ body: 'Hi', meta: { status: 'closed' } });
+    expect(form.conflicts.value.map(c => c.path)).toEqual(['body']);
+    expect(form.isDirty('body')).toBe(false);
+
+    form.resolveConflict('body', 'local');
+    expect(form.getValue('body')).toBe('Hello world');
+    expect(form.isDirty('body')).toBe(true);
+    expect(form.conflicts.value).toEqual([]);
+  });
+
+  test('leaves the paths missing from partial initial values unchanged', async () => {
+    const form = await renderSetup(() => {
+      return useForm({ initialValues: { a: 'a', b: 'b', c: 'c', d: { e: 'e', f: 'f' } } });
+    });
+
+    form.setValue('a', 'mine');
+    form.setValue('c', 'myC');
+    form.rebase({ a: 'a', c: 'remoteC', d: { e: 'remoteE' } });
+    expect(form.values).toEqual({ a: 'mine', b: 'b', c: 'myC', d: { e: 'remoteE', f: 'f' } });
+    expect(form.conflicts.value.map(c => c.path)).toEqual(['c']);
+
+    form.reset();
+    expect(form.values).toEqual({ a: 'a', b: 'b', c: 'remoteC', d: { e: 'remoteE', f: 'f' } });
+  });
+
+  test('reports the rebase as the source of the value changes', async () => {
+    const form = await renderEditedForm();
+    const spy = vi.fn();
+    form.onValueChange('title', spy);
+
+    form.rebase(remote);
+    await flush();
+    expect(spy).toHaveBeenCalledWith('Final', 'Draft', { source: 'rebase' });
+
+    form.reset();
+    expect(form.values).toEqual(remote);
+    expect(form.conflicts.value).toEqual([]);
+  });
+});
+
+describe('state hydration', () => {
+  const TextField: Component = {
+    inheritAttrs: false,
+    setup: (_, { attrs }) => {
+      const name = attrs.name as string;
+      const { inputProps, errorMessage } = useTextField({ name, label: name, required: true });
+
+      return { inputProps, errorMessage, name };
+    },
+    template: `<input v-bind="inputProps" :data-testid="name" /><span :data-testid="name + '-error'">{{ errorMessage }}</span>`,
+  };
+
+  async function renderServerForm() {
+    const form = await renderSetup(() => useForm({ initialValues: { email: '', name: 'John' } }));
+    form.setValue('name', 'Jane');
+    form.setTouched('email', true);
+    await form.handleSubmit(() => {})();
+    form.applyServerErrors({ errors: { email: ['Email is taken'] } });
+    await flush();
+
+    return form;
+  }
+
+  test('serializes the form state', async () => {
+    const form = await renderServerForm();
+
+    expect(form.serializeState()).toEqual({
+      values: { email: '', name: 'Jane' },
+      touched: { email: true },
+      dirty: { name: true },
+      errors: { email: ['Email is taken'] },
+      submitErrors: { email: ['Email is taken'] },
+      submitAttemptsCount: 1,
+      isSubmitAttempted: true,
+      wasSubmitted: true,
+    });
+  });
+
+  test('picks up the serialized state instead of validating the fields again', async () => {
+    const payload = JSON.parse(JSON.stringify((await renderServerForm()).serializeState()));
+    let form!: ReturnType<typeof useForm>;
+    await render({
+      components: { TextField },
+      setup() {
+        form = useForm({ initialValues: { email: '', name: 'John' }, hydrate: payload });
+
+        return {};
+      },
+      template: `
+        <TextField name="email" />
+        <TextField name="name" />
+      `,
+    });
+
+    await flush();
+    expect(form.values).toEqual({ email: '', name: 'Jane' });
+    expect(screen.getByTestId('name')).toHaveValue('Jane');
+    expect(screen.getByTestId('email-error')).toHaveTextContent('Email is taken');
+    expect(form.getSubmitError('email')).toBe('Email is taken');
+    expect(form.isTouched('email')).toBe(true);
+    expect(form.isDirty('name')).toBe(true);
+    expect(form.submitAttemptsCount.value).toBe(1);
+    expect(form.isSubmitAttempted.value).toBe(true);
+
+    await fireEvent.update(screen.getByTestId('email'), 'test@example.com');
+    await fireEvent.blur(screen.getByTestId('email'));
+    await flush();
+    expect(screen.getByTestId('email-error')).toBeEmptyDOMElement();
+  });
+
+  test('validates hydrated schema forms on mount', async () => {
+    const schema = defineStandardSchema<any>(value => ({
+      issues: (value as { email?: string }).email ? [] : [{ path: ['email'], message: 'Required' }],
+    }));
+
+    // Server renders do not run the mount validation, so the payload has no errors.
+    const payload: FormStatePayload = {
+      values: { email: '' },
+      touched: {},
+      dirty: {},
+      errors: {},
+      submitErrors: {},
+      submitAttemptsCount: 0,
+      isSubmitAttempted: false,
+      wasSubmitted: false,
+    };
+
+    const form = await renderSetup(() => useForm<any>({ schema, hydrate: payload }));
+
+    await flush();
+    expect(form.isValid()).toBe(false);
+    expect(form.getErrors()).toEqual(['Required']);
+  });
+
+  test('keeps the hydrated errors of schema forms on mount', async () => {
+    const schema = defineStandardSchema<any>(value => ({
+      issues: (value as { email?: string }).email ? [] : [{ path: ['email'], message: 'Required' }],
+    }));
+
+    const payload: FormStatePayload = {
+      values: { email: 'taken@example.com' },
+      touched: {},
+      dirty: {},
+      errors: { email: ['Email is taken'] },
+      submitErrors: { email: ['Email is taken'] },
+      submitAttemptsCount: 1,
+      isSubmitAttempted: true,
+      wasSubmitted: true,
+    };
+
+    const form = await renderSetup(() => useForm<any>({ schema, hydrate: payload }));
+
+    await flush();
+    expect(form.getErrors()).toEqual(['Email is taken']);
+  });
+
+  test('keeps the field ids stable between the server and the client', async () => {
+    const payload = (await renderServerForm()).serializeState();
+    const App: Component = {
+      components: { TextField },
+      setup: () => {
+        useForm({ hydrate: payload });
+
+        return {};
+      },
+      template: `<TextField name="email" />`,
+    };
+
+    const html = await renderToString(createSSRApp(App));
+    const container = document.createElement('div');
+    container.innerHTML = html;
+    const serverId = container.querySelector('input')?.id;
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const app = createSSRApp(App);
+    app.mount(container);
+    await flush();
+    expect(serverId).toBeTruthy();
+    expect(container.querySelector('input')?.id).toBe(serverId);
+    expect(warn.mock.calls.filter(([msg]) => String(msg).includes('Hydration'))).toEqual([]);
+    warn.mockRestore();
+    app.unmount();
+  });
+});
+
+describe('sub-forms', () => {
+  test('mirrors the values of an attached form into its parent', async () => {
+    const { parent, child } = await renderSetup(
+      () => ({ parent: useForm<any>({ initialValues: { name: 'John' } }) }),
+      () => ({ child: useForm<any>({ attachTo: 'address', initialValues: { city: 'Cairo' } }) }),
+    );
+
+    await flush();
+    expect(parent.values).toEqual({ name: 'John', address: { city: 'Cairo' } });
+    expect(parent.isDirty()).toBe(false);
+
+    child.setValue('city', 'Giza');
+    await flush();
+    expect(parent.values).toEqual({ name: 'John', address: { city: 'Giza' } });
+    expect(parent.isDirty('address.city')).toBe(true);
+
+    parent.setValue('address', { city: 'Alexandria' });
+    expect(child.values).toEqual({ city: 'Alexandria' });
+
+    await parent.reset();
+    expect(child.values).toEqual({ city: 'Cairo' });
+  });
+
+  test('mirrors dates and files as values rather than objects', async () => {
+    const { parent, child } = await renderSetup(
+      () => ({ parent: useForm<any>() }),
+      () => ({ child: useForm<any>({ attachTo: 'event', initialValues: { title: 'Launch' } }) }),
+    );
+
+    await flush();
+    const date = new Date('2024-01-01');
+    const file = new File(['content'], 'file.txt');
+    child.setValue('date', date);
+    child.setValue('file', file);
+    await flush();
+    expect(parent.values.event.date).toEqual(date);
+    expect(parent.values.event.file).toBe(file);
+  });
+
+  test('prefers the values the parent already has for the path', async () => {
+    const { child } = await renderSetup(
+      () => ({ parent: useForm<any>({ initialValues: { address: { city: 'Giza' } } }) }),
+      () => ({ child: useForm<any>({ attachTo: 'address', initialValues: { city: 'Cairo', zip: '' } }) }),
+    );
+
+    expect(child.values).toEqual({ city: 'Giza', zip: '' });
+    expect(child.isDirty()).toBe(false);
+  });
+
+  test('mirrors touched state and errors into the parent', async () => {
+    const schema = defineStandardSchema<any>(value => ({
+      issues: (value as { city?: string }).city ? [] : [{ path: ['city'], message: 'Required' }],
+    }));
+
+    const { parent, child } = await renderSetup(
+      () => ({ parent: useForm<any>() }),
+      () => ({ child: useForm<any>({ attachTo: 'address', schema, initialValues: { city: '' } }) }),
+    );
+
+    await flush();
+    expect(parent.getError('address.city')).toBe('Required');
+
+    const result = await parent.validate();
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([{ path: 'address.city', messages: ['Required'] }]);
+
+    child.setTouched('city', true);
+    child.setValue('city', 'Cairo');
+    await child.validate();
+    await flush();
+    expect(parent.isTouched('address.city')).toBe(true);
+    expect(parent.getError('address.city')).toBeUndefined();
+  });
+
+  test('can still be submitted on its own', async () => {
+    const parentHandler = vi.fn();
+    const childHandler = vi.fn();
+    const { parent, child } = await renderSetup(
+      () => ({ parent: useForm<any>({ initialValues: { name: 'John' } }) }),
+      () => ({ child: useForm<any>({ attachTo: 'address', initialValues: { city: 'Cairo' } }) }),
+    );
+
+    await flush();
+    await child.handleSubmit(v => childHandler(v.toObject()))();
+    await parent.handleSubmit(v => parentHandler(v.toObject()))();
+
+    expect(childHandler).toHaveBeenCalledWith({ city: 'Cairo' });
+    expect(parentHandler).toHaveBeenCalledWith({ name: 'John', address: { city: 'Cairo' } });
+  });
+
+  test('warns if there is no parent form', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await renderSetup(() => useForm({ attachTo: 'address' }));
+
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
+
 describe('form validation', () => {
   describe('constraints API', () => {
     function createInputComponent(inputEl: Ref<HTMLInputElement | undefined>): Component {
@@ -1,6 +1,17 @@
-import { InjectionKey, MaybeRefOrGetter, onMounted, provide, reactive, readonly, Ref, ref } from 'vue';
+import {
+  inject,
+  InjectionKey,
+  MaybeRefOrGetter,
+  nextTick,
+  onMounted,
+  provide,
+  reactive,
+  readonly,
+  Ref,
+  ref,
+} from 'vue';
 import type { StandardSchemaV1 } from '@standard-schema/spec';
-import { cloneDeep, useUniqId } from '../utils/common';
+import { cloneDeep, useUniqId, warn } from '../utils/common';
 import {
   FormObject,
   MaybeAsync,
@@ -15,16 +26,33 @@ import {
   GenericFormSchema,
   StandardSchema,
   DirtySchema,
+  Arrayable,
+  ValidationTrigger,
+  ErrorDisplayPolicy,
+  ErrorDisplayState,
 } from '../types';
 import { createFormContext, BaseFormContext } from './formContext';
-import { FormTransactionManager, useFormTransactions } from './useFormTransactions';
-import { FormActions, useFormActions } from './useFormActions';
+import { FormTransactionManager, FormTransactionsOptions, useFormTransactions } from './useFormTransactions';
+import { FormActions, ResubmitPolicy, useFormActions } from './useFormActions';
 import { useFormSnapshots } from './formSnapshot';
 import { getConfig } from '../config';
 import { FieldTypePrefixes } from '../constants';
 import { appendToFormData, clearFormData } from '../utils/formData';
 import { PartialDeep } from 'type-fest';
 import { createDisabledContext } from '../helpers/createDisabledContext';
+import { createReadonlyContext } from '../helpers/createReadonlyContext';
+import { createFormHistory, DEFAULT_HISTORY_LIMIT } from './formHistory';
+import { FormPersistOptions, useFormPersistence } from './formPersistence';
+import { createDependencyGraph } from './formDependencies';
+import { createFormRules, FormRule } from './formRules';
+import { createDerivedValues, DerivedValues } from './formDerived';
+import { createFormPlugins, FormPlugin } from './formPlugins';
+import { registerFormWithDevtools } from '../devtools';
+import { resolveValidationTriggers, ValidationTriggerOptions } from '../validation/validationTriggers';
+import { shouldDisplayError } from './errorDisplay';
+import { attachToParentForm } from './formAttachment';
+import { createFieldRegistry, FormFieldEntry, FormFieldRegistration } from './formFields';
+import { FormStatePayload, serializeFormState } from './formHydration';
 
 export interface FormProps<
   TSchema extends GenericFormSchema,
@@ -65,10 +93,76 @@ export interface FormProps<
    */
   disabled?: MaybeRefOrGetter<boolean | undefined>;
 
+  /**
+   * Whether the form is readonly, readonly fields keep their values in the submission and stay focusable but cannot be edited.
+   */
+  readonly?: MaybeRefOrGetter<boolean | undefined>;
+
   /**
    * Whether the form should scroll to the first invalid field on invalid submission.
    */
   scrollToInvalidFieldOnSubmit?: ScrollIntoViewOptions | boolean;
+
+  /**
+   * Whether the form should focus the first invalid field on invalid submission.
+   */
+  focusInvalidFieldOnSubmit?: boolean;
+
+  /**
+   * The maximum number of undo/redo history entries to keep, set to `0` to disable history tracking.
+   */
+  historyLimit?: number;
+
+  /**
+   * Persists the form values to a storage so that drafts survive page reloads.
+   */
+  persist?: FormPersistOptions<TInput>;
+
+  /**
+   * Rules that enable or show form paths based on the form values, hidden and disabled paths are excluded from submission.
+   */
+  when?: FormRule<TInput>[];
+
+  /**
+   * Values that are computed from other form values, they are read-only, excluded from dirty tracking and included in the submitted data.
+   */
+  derived?: DerivedValues<TInput>;
+
+  /**
+   * How to handle a submission while another one is still in flight, defaults to `ignore`.
+   */
+  resubmitPolicy?: ResubmitPolicy;
+
+  /**
+   * Plugins that hook into the form lifecycle, they run after the plugins set with `configure`.
+   */
+  plugins?: FormPlugin<TInput, StandardSchemaV1.InferOutput<TSchema>>[];
+
+  /**
+   * The interactions that validate the fields before the form is submitted, fields can override it.
+   */
+  validateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The interactions that validate the fields after the form was submitted, defaults to `validateOn`.
+   */
+  revalidateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * When the field errors should be displayed, defaults to the globally configured policy.
+   */
+  errorDisplay?: ErrorDisplayPolicy;
+
+  /**
+   * Attaches the form to the closest ancestor form under the given path, its values, touched state and errors become part of the ancestor's while it can still be validated and submitted on its own.
+   */
+  attachTo?: string;
+
+  /**
+   * The state serialized on the server with `serializeState`, the form starts from it instead of its initial state.
+   * The hydrated errors are kept instead of validating the fields on mount, payloads without errors are still validated on mount since the server render does not run the mount validation.
+   */
+  hydrate?: FormStatePayload<TInput>;
 }
 
 export interface FormContext<TInput extends FormObject = FormObject, TOutput extends FormObject = TInput>
@@ -76,8 +170,20 @@ export interface FormContext<TInput extends FormObject = FormObject, TOutput ext
     FormTransactionManager<TInput> {
   requestValidation(): Promise<FormValidationResult<TOutput>>;
   onSubmitAttempt(cb: () => void): void;
+  onInvalidSubmit(cb: () => void): void;
+  trackValidation(pending: Promise<unknown>): void;
+  registerValidationDependencies(path: string, dependencies: string[]): () => void;
   onValidationDone(cb: () => void): void;
+  isHydrating(): boolean;
+  isHydratingErrors(): boolean;
+  resetField: FormActions<TInput, TOutput>['resetField'];
+  resetGroup: FormActions<TInput, TOutput>['resetGroup'];
+  unregisterField(field: FormFieldRegistration): void;
+  getFields(): FormFieldEntry[];
   isHtmlValidationDisabled(): boolean;
+  shouldFocusInvalidField(): boolean;
+  getValidationTriggers(field?: ValidationTriggerOptions): ValidationTrigger[];
+  shouldDisplayError(state: Omit<ErrorDisplayState, 'isSubmitAttempted'>): boolean;
   onValidationDispatch(
     cb: (enqueue: (promise: Promise<ValidationResult | GroupValidationResult>) => void) => void,
   ): void;
@@ -104,14 +210,29 @@ export function useForm<
 
   const id = props?.id || useUniqId(FieldTypePrefixes.Form);
   const isDisabled = createDisabledContext(props?.disabled);
+  const isReadonly = createReadonlyContext(props?.readonly);
   const isHtmlValidationDisabled = () => props?.disableHtmlValidation ?? getConfig().disableHtmlValidation;
-  const values = reactive(cloneDeep(valuesSnapshot.originals.value)) as PartialDeep<TInput>;
-  const touched = reactive(cloneDeep(touchedSnapshot.originals.value)) as TouchedSchema<TInput>;
-  const dirty = reactive(cloneDeep(dirtySnapshot.originals.value)) as DirtySchema<TInput>;
+  const hydration = props?.hydrate;
+  const values = reactive(cloneDeep(hydration?.values ?? valuesSnapshot.originals.value)) as PartialDeep<TInput>;
+  const touched = reactive(cloneDeep(hydration?.touched ?? touchedSnapshot.originals.value)) as TouchedSchema<TInput>;
+  const dirty = reactive(cloneDeep(hydration?.dirty ?? dirtySnapshot.originals.value)) as DirtySchema<TInput>;
   const disabled = reactive({}) as DisabledSchema<TInput>;
-  const errors = ref({}) as Ref<ErrorsSchema<TInput>>;
-  const submitErrors = ref({}) as Ref<ErrorsSchema<TInput>>;
+  const errors = ref(cloneDeep(hydration?.errors ?? {})) as Ref<ErrorsSchema<TInput>>;
+  const submitErrors = ref(cloneDeep(hydration?.submitErrors ?? {})) as Ref<ErrorsSchema<TInput>>;
+  const { history, canUndo, canRedo } = createFormHistory({
+    values: values as TInput,
+    touched,
+    dirty,
+    limit: props?.historyLimit ?? DEFAULT_HISTORY_LIMIT,
+  });
 
+  const devtools = __DEV__
+    ? registerFormWithDevtools({ id, values: values as FormObject, touched, dirty, disabled, errors, submitErrors })
+    : undefined;
+  const plugins = createFormPlugins<TInput, TOutput>([
+    ...((props?.plugins ?? []) as FormPlugin<TInput, TOutput>[]),
+    ...(devtools ? [devtools.plugin as FormPlugin<TInput, TOutput>] : []),
+  ]);
   const ctx = createFormContext<TInput, TOutput>({
     id,
     values: values as TInput,
@@ -126,6 +247,15 @@ export function useForm<
       touched: touchedSnapshot,
       dirty: dirtySnapshot,
     },
+    history,
+    rules: props?.when?.length
+      ? createFormRules(props.when, {
+          values: values as TInput,
+          onHidden: path => ctx.unsetPath(path),
+        })
+      : undefined,
+    derived: props?.derived ? createDerivedValues(props.derived, values as TInput) : undefined,
+    plugins,
   });
 
   function isValid<TPath extends Path<TInput>>(path?: TPath) {
@@ -135,16 +265,51 @@ export function useForm<
   }
 
   function onAsyncInit(v: TInput) {
-    ctx.setValues(v, { behavior: 'merge' });
+    // The hydrated values already include the resolved initial values.
+    if (hydration) {
+      return;
+    }
+
+    history.untracked(() => ctx.setValues(v, { behavior: 'merge' }));
   }
 
-  const transactionsManager = useFormTransactions(ctx);
-  const { actions, isSubmitting, submitAttemptsCount, wasSubmitted, isSubmitAttempted, ...privateActions } =
-    useFormActions<TInput, TOutput>(ctx, {
-      disabled,
-      schema: props?.schema as StandardSchema<TInput, TOutput>,
-      scrollToInvalidFieldOnSubmit: props?.scrollToInvalidFieldOnSubmit ?? true,
-    });
+  const fieldRegistry = createFieldRegistry();
+  const transactionsManager = useFormTransactions(ctx, {
+    history,
+    fields: fieldRegistry,
+    onCommit: devtools?.onTransactionsCommit as FormTransactionsOptions<TInput>['onCommit'],
+  });
+  const {
+    actions,
+    isSubmitting,
+    submitError,
+    submitAttemptsCount,
+    wasSubmitted,
+    isSubmitAttempted,
+    isValidating,
+    conflicts,
+    ...privateActions
+  } = useFormActions<TInput, TOutput>(ctx, {
+    schema: props?.schema as StandardSchema<TInput, TOutput>,
+    scrollToInvalidFieldOnSubmit: props?.scrollToInvalidFieldOnSubmit ?? true,
+    focusInvalidFieldOnSubmit: props?.focusInvalidFieldOnSubmit ?? false,
+    getFields: () => fieldRegistry.fields.value,
+    history,
+    resubmitPolicy: props?.resubmitPolicy,
+    plugins,
+  });
+
+  let isHydrating = !!hydration;
+  // Errors from the server, like the ones of a no-JS submission, would be replaced by the mount validation.
+  const hasHydratedErrors =
+    !!hydration && Object.values<string[] | undefined>(hydration.errors).some(messages => !!messages?.length);
+  if (hydration) {
+    submitAttemptsCount.value = hydration.submitAttemptsCount;
+    isSubmitAttempted.value = hydration.isSubmitAttempted;
+    wasSubmitted.value = hydration.wasSubmitted;
+    // Fields mounted with the form keep the hydrated values and touched state, the ones mounted later start from their initial state.
+    onMounted(() => nextTick(() => (isHydrating = false)));
+  }
 
   function getError<TPath extends Path<TInput>>(path: TPath): string | undefined {
     return ctx.isPathDisabled(path) ? undefined : ctx.getErrors(path)[0];
@@ -154,18 +319,89 @@ export function useForm<
     return ctx.isPathDisabled(path) ? undefined : ctx.getFieldSubmitErrors(path)[0];
   }
 
+  function undo() {
+    if (history.undo()) {
+      privateActions.requestValidation();
+    }
+  }
+
+  function redo() {
+    if (history.redo()) {
+      privateActions.requestValidation();
+    }
+  }
+
+  function getValidationTriggers(field?: ValidationTriggerOptions) {
+    return resolveValidationTriggers(
+      [field, { validateOn: props?.validateOn, revalidateOn: props?.revalidateOn }],
+      isSubmitAttempted.value,
+    );
+  }
+
+  function isErrorDisplayed(state: Omit<ErrorDisplayState, 'isSubmitAttempted'>) {
+    return shouldDisplayError(props?.errorDisplay ?? getConfig().errorDisplay, {
+      ...state,
+      isSubmitAttempted: isSubmitAttempted.value,
+    });
+  }
+
   function displayError(path: Path<TInput>) {
-    return ctx.isTouched(path) && !ctx.isPathDisabled(path) ? getError(path) : undefined;
+    const isDisplayed = isErrorDisplayed({ isTouched: ctx.isTouched(path), isDirty: ctx.isDirty(path) });
+
+    return isDisplayed && !ctx.isPathDisabled(path) ? getError(path) : undefined;
   }
 
+  const dependencyGraph = createDependencyGraph();
+  const parentForm = props?.attachTo ? inject(FormKey, null) : null;
+
   provide(FormKey, {
     ...ctx,
     ...transactionsManager,
     ...privateActions,
+    resetField: actions.resetField,
+    resetGroup: actions.resetGroup,
+    unregisterField: fieldRegistry.unregister,
+    isHydrating: () => isHydrating,
+    isHydratingErrors: () => isHydrating && hasHydratedErrors,
+    getFields: () => fieldRegistry.fields.value,
     isHtmlValidationDisabled,
+    shouldFocusInvalidField: () => props?.focusInvalidFieldOnSubmit ?? false,
+    getValidationTriggers,
+    shouldDisplayError: isErrorDisplayed,
+    registerValidationDependencies: dependencyGraph.register,
   } as FormContext<TInput, TOutput>);
 
-  if (ctx.getValidationMode() === 'schema') {
+  plugins?.init(ctx);
+
+  if (props?.attachTo) {
+    if (parentForm) {
+      attachToParentForm({
+        parent: parentForm,
+        path: props.attachTo,
+        form: ctx,
+        values: values as TInput,
+        touched,
+        errors,
+        validate: actions.validate,
+      });
+    } else {
+      warn('Attached forms must have an ancestor form. Please make sure to call `useForm` at a parent component.');
+    }
+  }
+
+  if (props?.persist) {
+    const persistence = useFormPersistence(props.persist, {
+      form: ctx,
+      values: values as TInput,
+      snapshot: valuesSnapshot,
+      history,
+    });
+
+    // The draft is no longer needed once it was submitted successfully.
+    privateActions.onSubmitSuccess(persistence.clear);
+  }
+
+  if (ctx.getValidationMode() === 'schema' && !hasHydratedErrors) {
     onMounted(privateActions.requestValidation);
   }
 
@@ -203,6 +439,14 @@ export function useForm<
      * Whether the form is submitting.
      */
     isSubmitting,
+    /**
+     * The error thrown by the last submit handler, cleared when the form is submitted again.
+     */
+    submitError,
+    /**
+     * Whether the form or any of its fields are running their validation.
+     */
+    isValidating,
     /**
      * Checks if the form is valid, or if a form path is valid. Validity is defined as the absence of errors.
      * @param path - The path to check. If not provided, the form as a whole will be checked.
@@ -212,6 +456,63 @@ export function useForm<
      * Whether the form is disabled.
      */
     isDisabled,
+    /**
+     * Whether the form is readonly.
+     */
+    isReadonly,
+    /**
+     * Checks if a form path is hidden by one of the form's `when` rules.
+     */
+    isHidden: ctx.isPathHidden,
+    /**
+     * Calls the given callback when the value of one or more paths changes, along with what caused the change.
+     * @example
+     * ```ts
+     * form.onValueChange('country', (value, oldValue, { source }) => {
+     *   if (source !== 'reset') {
+     *     fetchStates(value);
+     *   }
+     * });
+     * ```
+     */
+    onValueChange: ctx.onValueChange,
+    /**
+     * The fields mounted in the form along with their labels, element ids and states.
+     */
+    fields: fieldRegistry.fields,
+    /**
+     * Gets the fields mounted in the form, useful for building error summaries or progress indicators.
+     * @example
+     * ```ts
+     * const missing = form.getFields().filter(field => !field.isValid);
+     * ```
+     */
+    getFields: (): FormFieldEntry[] => fieldRegistry.fields.value,
+    /**
+     * Serializes the form state on the server, pass it to the `hydrate` option on the client to pick up where the server left off.
+     * @example
+     * ```ts
+     * // server
+     * payload.form = form.serializeState();
+     * // client
+     * const form = useForm({ hydrate: payload.form });
+     * ```
+     */
+    serializeState: (): FormStatePayload<TInput> =>
+      serializeFormState({
+        values: values as TInput,
+        touched,
+        dirty,
+        errors,
+        submitErrors,
+        submitAttemptsCount,
+        isSubmitAttempted,
+        wasSubmitted,
+      }),
+    /**
+     * The paths changed both by the user and by the last `rebase`, cleared when the form is reset.
+     */
+    conflicts,
     /**
      * The number of times the form has been submitted, regardless of the form's validity.
      */
@@ -282,6 +583,22 @@ export function useForm<
      * Props for the form element.
      */
     formProps,
+    /**
+     * Reverts the last recorded change to the form values, changes made within the same tick are undone together.
+     */
+    undo,
+    /**
+     * Re-applies the last undone change.
+     */
+    redo,
+    /**
+     * Whether there are changes that can be undone.
+     */
+    canUndo,
+    /**
+     * Whether there are undone changes that can be re-applied.
+     */
+    canRedo,
   };
 
   return {
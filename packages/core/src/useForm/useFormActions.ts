@@ -1,21 +1,28 @@
-import { shallowRef } from 'vue';
+import { computed, shallowRef } from 'vue';
 import {
-  DisabledSchema,
   FormObject,
   FormValidationResult,
   MaybeAsync,
   Path,
+  PathValue,
   IssueCollection,
   StandardSchema,
   TouchedSchema,
 } from '../types';
+import { cloneDeep } from '../utils/common';
 import { createEventDispatcher } from '../utils/events';
 import { BaseFormContext, SetValueOptions } from './formContext';
 import { unsetPath } from '../utils/path';
 import { useValidationProvider } from '../validation/useValidationProvider';
-import { appendToFormData } from '../utils/formData';
-import type { Jsonify } from 'type-fest';
+import { appendToFormData, appendToURLSearchParams, FormDataSerializationOptions } from '../utils/formData';
+import { createJSONPatch, createMergePatch, JSONPatchOperation, pickJSONPatch, pickMergePatch } from '../utils/patch';
+import type { Jsonify, PartialDeep } from 'type-fest';
 import { FormIdAttr } from '../constants';
+import { FormHistory } from './formHistory';
+import { mapServerErrors, ServerErrorMapper } from './serverErrors';
+import { FormPluginHost } from './formPlugins';
+import { FormFieldEntry, sortByDocumentOrder } from './formFields';
+import { RebaseConflict, RebaseOptions, rebaseValues } from './formRebase';
 
 export interface ResetState<TForm extends FormObject> {
   values: Partial<TForm>;
@@ -23,21 +30,69 @@ export interface ResetState<TForm extends FormObject> {
   revalidate?: boolean;
 }
 
+export interface ResetFieldOptions<TValue = unknown> {
+  /**
+   * A new initial value for the path, the rest of the form keeps its initial values.
+   */
+  value?: TValue;
+
+  /**
+   * Keeps the touched state of the path instead of clearing it.
+   */
+  keepTouched?: boolean;
+
+  /**
+   * Keeps the validation and submit errors of the path instead of clearing them.
+   */
+  keepErrors?: boolean;
+}
+
+/**
+ * How to handle a submission while another one is still in flight.
+ * - `ignore`: The new submission is dropped.
+ * - `abort-previous`: The in-flight submission is aborted and the new one starts.
+ * - `queue`: The new submission starts once the in-flight one settles.
+ */
+export type ResubmitPolicy = 'ignore' | 'abort-previous' | 'queue';
+
 export interface FormActionsOptions<TForm extends FormObject = FormObject, TOutput extends FormObject = TForm> {
   schema: StandardSchema<TForm, TOutput> | undefined;
-  disabled: DisabledSchema<TForm>;
   scrollToInvalidFieldOnSubmit: ScrollIntoViewOptions | boolean;
+  focusInvalidFieldOnSubmit?: boolean;
+  getFields?: () => FormFieldEntry[];
+  history?: FormHistory;
+  resubmitPolicy?: ResubmitPolicy;
+  plugins?: FormPluginHost<TForm, TOutput>;
 }
 
 export type ConsumableData<TOutput extends FormObject> = {
-  toFormData: () => FormData;
+  /**
+   * Serializes the data to a FormData object, the options default to the globally configured ones.
+   */
+  toFormData: (opts?: Partial<FormDataSerializationOptions>) => FormData;
+  /**
+   * Serializes the data to a URLSearchParams object, files are omitted since they cannot be encoded in a query string.
+   */
+  toURLSearchParams: (opts?: Partial<FormDataSerializationOptions>) => URLSearchParams;
   toObject: () => TOutput;
   toJSON: () => Jsonify<TOutput>;
+  /**
+   * Returns only the values that changed compared to the original form values, removed keys are set to `null`.
+   */
+  toPatch: () => PartialDeep<TOutput>;
+  /**
+   * Returns the RFC 6902 JSON patch operations that transform the original form values into the submitted ones.
+   */
+  toJSONPatch: () => JSONPatchOperation[];
 };
 
 export interface SubmitContext {
   form?: HTMLFormElement;
   event?: Event | SubmitEvent;
+  /**
+   * Aborted when the submission is superseded by another one, pass it to `fetch` to cancel the request.
+   */
+  signal: AbortSignal;
 }
 
 export interface FormActions<TForm extends FormObject, TOutput extends FormObject> {
@@ -57,21 +112,89 @@ export interface FormActions<TForm extends FormObject, TOutput extends FormObjec
    * Resets the form to its initial state.
    */
   reset: (state?: Partial<ResetState<TForm>>, opts?: SetValueOptions) => Promise<void>;
+  /**
+   * Resets a single field to its original value and clears its touched, dirty and error states.
+   * @example
+   * ```ts
+   * actions.resetField('email', { value: 'new@example.com' });
+   * ```
+   */
+  resetField: <TPath extends Path<TForm>>(path: TPath, opts?: ResetFieldOptions<PathValue<TForm, TPath>>) => void;
+  /**
+   * Resets every path under the given prefix to its original value and clears their touched, dirty and error states.
+   * Unlike `resetField`, the nested paths are reset whether or not they have a field.
+   * @example
+   * ```ts
+   * actions.resetGroup('address');
+   * ```
+   */
+  resetGroup: <TPath extends Path<TForm>>(prefix: TPath, opts?: ResetFieldOptions<PathValue<TForm, TPath>>) => void;
+  /**
+   * Updates the initial values while keeping the user's edits, paths changed on both sides are reported as conflicts.
+   * Paths missing from the new initial values are left unchanged.
+   * @example
+   * ```ts
+   * const conflicts = actions.rebase(await fetchRecord(), { strategy: 'keep-local' });
+   * ```
+   */
+  rebase: (newInitialValues: Partial<TForm>, opts?: RebaseOptions) => RebaseConflict[];
+  /**
+   * Resolves a conflict reported by `rebase` by picking either the user's value or the new initial value.
+   */
+  resolveConflict: (path: string, resolution: 'local' | 'remote') => void;
   /**
    * Validates the form.
    */
   validate: () => Promise<FormValidationResult<TOutput>>;
+  /**
+   * Maps a server error response to field errors, the RFC 7807, JSON:API and Laravel/Rails formats are supported out of the box.
+   * @example
+   * ```ts
+   * const onSubmit = actions.handleSubmit(async data => {
+   *   const res = await fetch('/api/users', { method: 'POST', body: data.toFormData() });
+   *   if (!res.ok) {
+   *     actions.applyServerErrors(await res.json());
+   *   }
+   * });
+   * ```
+   */
+  applyServerErrors: (payload: unknown, mapper?: ServerErrorMapper) => IssueCollection[];
+  /**
+   * Runs the last submission again with the current form values, useful after a failed submission.
+   */
+  retrySubmit: () => Promise<unknown>;
+  /**
+   * Registers a callback that is called with the error thrown by a submit handler, the submission still rejects with it.
+   */
+  onSubmitError: (cb: (error: unknown) => void) => void;
 }
 
 export function useFormActions<TForm extends FormObject = FormObject, TOutput extends FormObject = TForm>(
   form: BaseFormContext<TForm>,
-  { disabled, schema, scrollToInvalidFieldOnSubmit }: FormActionsOptions<TForm, TOutput>,
+  {
+    schema,
+    scrollToInvalidFieldOnSubmit,
+    focusInvalidFieldOnSubmit,
+    getFields,
+    history,
+    resubmitPolicy = 'ignore',
+    plugins,
+  }: FormActionsOptions<TForm, TOutput>,
 ) {
   const isSubmitting = shallowRef(false);
+  const submitError = shallowRef<unknown>();
   const submitAttemptsCount = shallowRef(0);
   const isSubmitAttempted = shallowRef(false);
   const wasSubmitted = shallowRef(false);
+  const conflicts = shallowRef<RebaseConflict[]>([]);
+  const pendingValidationsCount = shallowRef(0);
+  const isValidating = computed(() => pendingValidationsCount.value > 0);
   const [dispatchSubmit, onSubmitAttempt] = createEventDispatcher<void>('submit');
+  const [dispatchSubmitError, onSubmitError] = createEventDispatcher<unknown>('submitError');
+  const [dispatchInvalidSubmit, onInvalidSubmit] = createEventDispatcher<void>('invalidSubmit');
+  const [dispatchSubmitSuccess, onSubmitSuccess] = createEventDispatcher<void>('submitSuccess');
+  let inFlight: { controller: AbortController; done: Promise<unknown> } | undefined;
+  let lastSubmission: (() => Promise<unknown>) | undefined;
   const {
     validate: _validate,
     onValidationDispatch,
@@ -84,42 +207,125 @@ export function useFormActions<TForm extends FormObject = FormObject, TOutput ex
   function handleSubmit<TReturns>(
     onSuccess: (payload: ConsumableData<TOutput>, ctx: SubmitContext) => MaybeAsync<TReturns>,
   ) {
-    return async function onSubmit(e?: Event) {
-      e?.preventDefault();
+    async function submit(e: Event | undefined, controller: AbortController): Promise<TReturns | undefined> {
       isSubmitting.value = true;
-      isSubmitAttempted.value = true;
-      submitAttemptsCount.value += 1;
-
-      // No need to wait for this event to propagate, it is used for non-validation stuff like setting touched state.
-      dispatchSubmit();
-      const { isValid, output, errors } = await validate();
-
-      updateSubmitValidationStateFromResult(errors);
+      submitError.value = undefined;
+
+      try {
+        // No need to wait for this event to propagate, it is used for non-validation stuff like setting touched state.
+        dispatchSubmit();
+        const { isValid, output, errors } = await validate();
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        updateSubmitValidationStateFromResult(errors);
+
+        // Prevent submission if the form has errors
+        if (!isValid) {
+          // The same field is scrolled to and focused, forms without registered fields fall back to the document.
+          const target = findFirstInvalidField(getFields?.() ?? []);
+          const isScrolled = scrollToElement(
+            target ? target.el : findFirstInvalidElement(form.id),
+            scrollToInvalidFieldOnSubmit,
+          );
+
+          if (focusInvalidFieldOnSubmit) {
+            // The focus should not cut the smooth scrolling short by jumping to the field.
+            target?.field.focus({ preventScroll: isScrolled });
+          }
+
+          dispatchInvalidSubmit();
+          return;
+        }
+
+        const originals = form.getOriginalValues();
+        const input = form.getValues();
+        for (const path of form.getDisabledPaths()) {
+          unsetPath(output, path, true);
+          unsetPath(originals, path, true);
+          unsetPath(input, path, true);
+        }
+
+        const data = withConsumers(output, input, originals);
+        if (plugins && !(await plugins.beforeSubmit(data))) {
+          return;
+        }
+
+        const result = await onSuccess(data, {
+          event: e,
+          form: e?.target as HTMLFormElement,
+          signal: controller.signal,
+        });
+
+        if (!controller.signal.aborted) {
+          wasSubmitted.value = true;
+          dispatchSubmitSuccess();
+          plugins?.afterSubmit(data, result);
+        }
+
+        return result;
+      } catch (err) {
+        // Errors caused by aborting a superseded submission are expected.
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        submitError.value = err;
+        dispatchSubmitError(err);
+        plugins?.submitFailed(err);
+
+        throw err;
+      } finally {
+        if (inFlight?.controller === controller) {
+          inFlight = undefined;
+          isSubmitting.value = false;
+        }
+      }
+    }
 
-      // Prevent submission if the form has errors
-      if (!isValid) {
-        isSubmitting.value = false;
-        scrollToFirstInvalidField(form.id, scrollToInvalidFieldOnSubmit);
-        return;
+    function run(e?: Event): Promise<TReturns | undefined> {
+      const previous = inFlight;
+      // Dropped submissions are not attempts, they would flip the revalidation triggers and the error display otherwise.
+      if (previous && resubmitPolicy === 'ignore') {
+        return Promise.resolve(undefined);
       }
 
-      const disabledPaths = Object.entries(disabled)
-        .filter(([, v]) => !!v)
-        .map(([k]) => k)
-        .sort((a, b) => b.localeCompare(a)) as (keyof DisabledSchema<TForm>)[];
+      isSubmitAttempted.value = true;
+      submitAttemptsCount.value += 1;
 
-      for (const path of disabledPaths) {
-        unsetPath(output, path, true);
+      if (previous && resubmitPolicy === 'abort-previous') {
+        previous.controller.abort();
       }
 
-      const result = await onSuccess(withConsumers(output), { event: e, form: e?.target as HTMLFormElement });
-      isSubmitting.value = false;
-      wasSubmitted.value = true;
+      lastSubmission = () => run(e);
+      const controller = new AbortController();
+      const current = { controller, done: Promise.resolve<unknown>(undefined) };
+      inFlight = current;
+      const done =
+        previous && resubmitPolicy === 'queue'
+          ? previous.done.then(
+              () => submit(e, controller),
+              // A failed submission does not stop the queued ones, its caller already got the error.
+              () => submit(e, controller),
+            )
+          : submit(e, controller);
+      current.done = done;
+
+      return done;
+    }
+
+    return async function onSubmit(e?: Event) {
+      e?.preventDefault();
 
-      return result;
+      return run(e);
     };
   }
 
+  function retrySubmit() {
+    return lastSubmission?.() ?? Promise.resolve(undefined);
+  }
+
   function updateSubmitValidationStateFromResult(errors: IssueCollection[]) {
     form.clearSubmitErrors();
     applySubmitErrors(errors);
@@ -129,12 +335,25 @@ export function useFormActions<TForm extends FormObject = FormObject, TOutput ex
     form.clearErrors();
     applyErrors(result.errors);
     dispatchValidateDone();
+    plugins?.validated(result);
 
     return result;
   }
 
+  function trackValidation(pending: Promise<unknown>) {
+    const done = () => {
+      pendingValidationsCount.value -= 1;
+    };
+
+    pendingValidationsCount.value += 1;
+    pending.then(done, done);
+  }
+
   async function validate(): Promise<FormValidationResult<TOutput>> {
-    const result = await _validate();
+    // Field validations dispatched by the form are awaited here, including any pending async ones.
+    const pending = _validate();
+    trackValidation(pending);
+    const result = await pending;
     updateValidationStateFromResult(result);
 
     return result;
@@ -152,6 +371,16 @@ export function useFormActions<TForm extends FormObject = FormObject, TOutput ex
     }
   }
 
+  function applyServerErrors(payload: unknown, mapper?: ServerErrorMapper) {
+    const errors = mapServerErrors(payload, mapper);
+    for (const entry of errors) {
+      form.setFieldSubmitErrors(entry.path as Path<TForm>, entry.messages);
+      form.setErrors(entry.path as Path<TForm>, entry.messages);
+    }
+
+    return errors;
+  }
+
   async function reset(state?: Partial<ResetState<TForm>>, opts?: SetValueOptions) {
     if (state?.values) {
       form.setInitialValues(state.values, opts);
@@ -162,10 +391,13 @@ export function useFormActions<TForm extends FormObject = FormObject, TOutput ex
     }
 
     wasSubmitted.value = false;
+    conflicts.value = [];
 
     form.revertValues();
     form.revertTouched();
     form.revertDirty();
+    // A reset starts a new editing session, so previous changes can no longer be undone.
+    history?.clear();
     submitAttemptsCount.value = 0;
     isSubmitAttempted.value = false;
 
@@ -180,48 +412,144 @@ export function useFormActions<TForm extends FormObject = FormObject, TOutput ex
     return Promise.resolve();
   }
 
+  function resetField<TPath extends Path<TForm>>(path: TPath, opts?: ResetFieldOptions<PathValue<TForm, TPath>>) {
+    if (opts && 'value' in opts) {
+      form.setFieldInitialValue(path, opts.value);
+    }
+
+    // Unlike a full reset, the history is kept since only part of the form is affected.
+    form.revertPath(path);
+    if (!opts?.keepTouched) {
+      form.setTouched(path, false);
+    }
+
+    if (!opts?.keepErrors) {
+      form.clearErrors(path);
+      form.clearSubmitErrors(path);
+    }
+  }
+
+  function resetGroup<TPath extends Path<TForm>>(prefix: TPath, opts?: ResetFieldOptions<PathValue<TForm, TPath>>) {
+    if (opts && 'value' in opts) {
+      form.setFieldInitialValue(prefix, opts.value);
+    }
+
+    form.revertPath(prefix);
+    // Setting the dirty and touched states of an object prefix sets them for every nested path.
+    form.setDirty(prefix, false);
+    if (!opts?.keepTouched) {
+      form.setTouched(prefix, false);
+    }
+
+    if (!opts?.keepErrors) {
+      form.clearErrors(prefix);
+      form.clearSubmitErrors(prefix);
+    }
+  }
+
+  function rebase(newInitialValues: Partial<TForm>, opts?: RebaseOptions) {
+    const result = rebaseValues(
+      form.getOriginalValues(),
+      form.getValues(),
+      newInitialValues,
+      opts?.strategy ?? 'keep-local',
+    );
+
+    form.setInitialValues(newInitialValues, { behavior: 'merge' });
+    form.withValueChangeSource('rebase', () => form.setValues(result.values, { behavior: 'replace' }));
+    form.revertDirty();
+    for (const path of result.localPaths) {
+      form.setDirty(path as Path<TForm>, true);
+    }
+
+    // The recorded changes were made against the old initial values, so they can no longer be undone.
+    history?.clear();
+    conflicts.value = result.conflicts;
+
+    return result.conflicts;
+  }
+
+  function resolveConflict(path: string, resolution: 'local' | 'remote') {
+    const conflict = conflicts.value.find(c => c.path === path);
+    if (!conflict) {
+      return;
+    }
+
+    form.setValue(path as Path<TForm>, cloneDeep(conflict[resolution]) as PathValue<TForm, Path<TForm>>);
+    conflicts.value = conflicts.value.filter(c => c !== conflict);
+  }
+
   const actions: FormActions<TForm, TOutput> = {
     handleSubmit,
     reset,
+    resetField,
+    resetGroup,
+    rebase,
+    resolveConflict,
     validate,
+    applyServerErrors,
+    retrySubmit,
+    onSubmitError,
   };
 
   return {
     actions,
     requestValidation,
     onSubmitAttempt,
+    onInvalidSubmit,
+    onSubmitSuccess,
+    trackValidation,
     onValidationDispatch,
     onValidationDone,
     isSubmitting,
+    submitError,
     submitAttemptsCount,
     wasSubmitted,
     isSubmitAttempted,
+    isValidating,
+    conflicts,
   };
 }
 
-function withConsumers<TData extends FormObject>(data: TData): ConsumableData<TData> {
+function withConsumers<TData extends FormObject>(
+  data: TData,
+  input: FormObject,
+  originals: FormObject,
+): ConsumableData<TData> {
   const toObject = () => data;
-  const toFormData = () => {
-    const formData = new FormData();
-    appendToFormData(data, formData);
-
-    return formData;
-  };
+  const toFormData = (opts?: Partial<FormDataSerializationOptions>) => appendToFormData(data, new FormData(), opts);
+  const toURLSearchParams = (opts?: Partial<FormDataSerializationOptions>) =>
+    appendToURLSearchParams(data, new URLSearchParams(), opts);
 
   function toJSON() {
     return JSON.parse(JSON.stringify(toObject()));
   }
 
+  // The changes are found in the input since the schema transforms would otherwise be reported as changes.
+  const toPatch = () => pickMergePatch(createMergePatch(originals, input), data) as PartialDeep<TData>;
+  const toJSONPatch = () => pickJSONPatch(createJSONPatch(originals, input), data);
+
   return {
     toObject,
     toFormData,
+    toURLSearchParams,
     toJSON,
+    toPatch,
+    toJSONPatch,
   };
 }
 
-function scrollToFirstInvalidField(formId: string, options: ScrollIntoViewOptions | boolean) {
-  if (!options) {
-    return;
+function findFirstInvalidField(fields: FormFieldEntry[]) {
+  return sortByDocumentOrder(fields.filter(field => !field.isValid && !field.isDisabled))[0];
+}
+
+function findFirstInvalidElement(formId: string) {
+  return document.querySelector(`[aria-invalid="true"][aria-errormessage][${FormIdAttr}="${formId}"]`);
+}
+
+function scrollToElement(el: Element | null, options: ScrollIntoViewOptions | boolean) {
+  if (!options || !el) {
+    return false;
   }
 
   const scrollOpts =
@@ -229,8 +557,7 @@ function scrollToFirstInvalidField(formId: string, options: ScrollIntoViewOption
       ? options
       : ({ behavior: 'smooth', block: 'center', inline: 'start' } as ScrollIntoViewOptions);
 
-  const invalidField = document.querySelector(`[aria-invalid="true"][aria-errormessage][${FormIdAttr}="${formId}"]`);
-  if (invalidField) {
-    invalidField.scrollIntoView(scrollOpts);
-  }
+  el.scrollIntoView(scrollOpts);
+
+  return true;
 }
@@ -1,6 +1,8 @@
 import { nextTick } from 'vue';
 import { FormObject, Path, PathValue } from '../types';
 import { BaseFormContext } from './formContext';
+import { FormHistory } from './formHistory';
+import { FormFieldRegistration, FormFieldRegistry } from './formFields';
 
 interface BaseStateTransaction<TForm extends FormObject> {
   path: Path<TForm>;
@@ -9,6 +11,10 @@ interface BaseStateTransaction<TForm extends FormObject> {
   dirty: boolean;
   disabled: boolean;
   errors: string[];
+  /**
+   * The field that claims the path, it is registered with the form once the transaction is committed.
+   */
+  field?: FormFieldRegistration;
 }
 
 interface SetPathStateTransaction<TForm extends FormObject> extends BaseStateTransaction<TForm> {
@@ -23,6 +29,10 @@ interface UnsetPathStateTransaction<TForm extends FormObject> {
 interface DestroyPathStateTransaction<TForm extends FormObject> {
   kind: 0;
   path: Path<TForm>;
+  /**
+   * The field that left the path, it is unregistered from the form once the transaction is committed.
+   */
+  field?: FormFieldRegistration;
 }
 
 interface InitializeFieldTransaction<TForm extends FormObject> extends BaseStateTransaction<TForm> {
@@ -57,7 +67,16 @@ export interface FormTransactionManager<TForm extends FormObject> {
   ): void;
 }
 
-export function useFormTransactions<TForm extends FormObject>(form: BaseFormContext<TForm>) {
+export interface FormTransactionsOptions<TForm extends FormObject = FormObject> {
+  history?: FormHistory;
+  fields?: FormFieldRegistry;
+  onCommit?: (transactions: FormTransaction<TForm>[]) => void;
+}
+
+export function useFormTransactions<TForm extends FormObject>(
+  form: BaseFormContext<TForm>,
+  opts?: FormTransactionsOptions<TForm>,
+) {
   const transactions = new Set<FormTransaction<TForm>>([]);
 
   let tick: Promise<void>;
@@ -86,7 +105,17 @@ export function useFormTransactions<TForm extends FormObject>(form: BaseFormCont
      * Unset transactions should be processed first to ensure that any fields that reclaim the same path maintain their value.
      */
     const trs = cleanTransactions(transactions);
+    // Fields are unregistered along with the rest of the commit, so a field replaced in the same tick never goes missing.
+    // This includes the destroyed paths that another field re-claims, since their transactions are dropped.
+    unregisterFields(transactions);
+
+    form.withValueChangeSource('transaction', () => applyTransactions(trs));
+
+    transactions.clear();
+    opts?.onCommit?.(trs);
+  }
 
+  function applyTransactions(trs: FormTransaction<TForm>[]) {
     for (const tr of trs) {
       if (tr.kind === TransactionKind.SET_PATH) {
         form.setValue(tr.path, tr.value);
@@ -94,11 +123,13 @@ export function useFormTransactions<TForm extends FormObject>(form: BaseFormCont
         form.setDirty(tr.path, tr.dirty);
         form.setFieldDisabled(tr.path, tr.disabled);
         form.setErrors(tr.path, tr.errors);
+        registerField(tr);
         continue;
       }
 
       if (tr.kind === TransactionKind.DESTROY_PATH) {
-        form.destroyPath(tr.path);
+        // Unmounting a field is not a user edit either.
+        untracked(() => form.destroyPath(tr.path));
         continue;
       }
 
@@ -108,18 +139,38 @@ export function useFormTransactions<TForm extends FormObject>(form: BaseFormCont
       }
 
       if (tr.kind === TransactionKind.INIT_PATH) {
-        const formInit = form.getFieldInitialValue(tr.path);
-        form.setValue(tr.path, tr.value ?? formInit);
-        form.setFieldDisabled(tr.path, tr.disabled);
-        form.setTouched(tr.path, tr.touched);
-        form.setDirty(tr.path, tr.dirty);
-        form.unsetInitialValue(tr.path);
-        form.setErrors(tr.path, tr.errors);
+        // Initializing a field is not a user edit, so it should not be undoable.
+        untracked(() => {
+          const formInit = form.getFieldInitialValue(tr.path);
+          form.setValue(tr.path, tr.value ?? formInit);
+          form.setFieldDisabled(tr.path, tr.disabled);
+          form.setTouched(tr.path, tr.touched);
+          form.setDirty(tr.path, tr.dirty);
+          form.unsetInitialValue(tr.path);
+          form.setErrors(tr.path, tr.errors);
+        });
+        registerField(tr);
         continue;
       }
     }
+  }
 
-    transactions.clear();
+  function registerField(tr: BaseStateTransaction<TForm>) {
+    if (tr.field) {
+      opts?.fields?.register(tr.field);
+    }
+  }
+
+  function unregisterFields(trs: Iterable<FormTransaction<TForm>>) {
+    for (const tr of trs) {
+      if (tr.kind === TransactionKind.DESTROY_PATH && tr.field) {
+        opts?.fields?.unregister(tr.field);
+      }
+    }
+  }
+
+  function untracked(fn: () => void) {
+    return opts?.history ? opts.history.untracked(fn) : fn();
   }
 
   const ctx: FormTransactionManager<TForm> = { transaction };
@@ -1,4 +1,8 @@
-import { renderSetup } from '@test-utils/index';
+import { fireEvent, render, screen } from '@testing-library/vue';
+import { flush, renderSetup } from '@test-utils/index';
+import { configure } from '../config';
+import { useForm } from '../useForm';
+import { useTextField } from '../useTextField';
 import { useErrorDisplay } from './useErrorDisplay';
 import { useFormField } from './useFormField';
 
@@ -37,3 +41,44 @@ test('controls display of custom messages as well', async () => {
   setTouched(true);
   expect(displayError('custom error')).toBe('custom error');
 });
+
+test('follows the configured display policy', async () => {
+  configure({ errorDisplay: 'always' });
+  const { displayError, setErrors } = await renderSetup(() => useFormField({ initialValue: 'bar' }));
+  setErrors('error');
+  expect(displayError()).toBe('error');
+
+  configure({ errorDisplay: ({ isDirty }) => isDirty });
+  expect(displayError()).toBe('');
+  configure({ errorDisplay: 'touched' });
+});
+
+test('follows the form display policy', async () => {
+  const form = await renderSetup(() => useForm({ initialValues: { field: 'a' }, errorDisplay: 'dirty' }));
+
+  form.setErrors('field', 'error');
+  form.setTouched('field', true);
+  expect(form.displayError('field')).toBeUndefined();
+  form.setValue('field', 'changed');
+  expect(form.displayError('field')).toBe('error');
+});
+
+test('only marks the field as invalid once the error is displayed', async () => {
+  await render({
+    setup() {
+      const { inputProps, errorMessageProps, displayError } = useTextField({ label: 'Field', required: true });
+
+      return { inputProps, errorMessageProps, displayError };
+    },
+    template: `
+      <input v-bind="inputProps" />
+      <span v-bind="errorMessageProps">{{ displayError() }}</span>
+    `,
+  });
+
+  await flush();
+  expect(screen.getByLabelText('Field')).toHaveAttribute('aria-invalid', 'false');
+  await fireEvent.blur(screen.getByLabelText('Field'));
+  await flush();
+  expect(screen.getByLabelText('Field')).toHaveAttribute('aria-invalid', 'true');
+});
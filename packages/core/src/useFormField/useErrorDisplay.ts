@@ -1,11 +1,27 @@
-import { Ref } from 'vue';
+import { computed, inject, Ref } from 'vue';
+import { FormKey } from '../useForm';
+import { getConfig } from '../config';
+import { shouldDisplayError } from '../useForm/errorDisplay';
+
+export function useErrorDisplay(
+  errorMessage: Ref<string | undefined>,
+  isTouched: Ref<boolean>,
+  isDirty?: Ref<boolean>,
+) {
+  const form = inject(FormKey, null);
+  const isErrorDisplayed = computed(() => {
+    const state = { isTouched: isTouched.value, isDirty: isDirty?.value ?? false };
+
+    return form
+      ? form.shouldDisplayError(state)
+      : shouldDisplayError(getConfig().errorDisplay, { ...state, isSubmitAttempted: false });
+  });
 
-export function useErrorDisplay(errorMessage: Ref<string | undefined>, isTouched: Ref<boolean>) {
   function displayError(msg?: string) {
     const error = msg || errorMessage.value;
 
-    return isTouched.value ? error : '';
+    return isErrorDisplayed.value ? error : '';
   }
 
-  return { displayError };
+  return { displayError, isErrorDisplayed };
 }
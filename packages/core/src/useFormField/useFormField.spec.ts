@@ -1,7 +1,9 @@
-import { renderSetup, defineStandardSchema } from '@test-utils/index';
+import { renderSetup, defineStandardSchema, flush } from '@test-utils/index';
 import { exposeField, useFormField } from './useFormField';
 import { useForm } from '../useForm/useForm';
+import { useInputValidity } from '../validation/useInputValidity';
 import { ref } from 'vue';
+import type { FieldValidateOptions } from '../types';
 
 test('it initializes the field value', async () => {
   const { fieldValue } = await renderSetup(() => {
@@ -226,3 +228,181 @@ test('validate warns and skips validation on a disabled field', async () => {
   // Clean up the mocks
   consoleWarnSpy.mockRestore();
 });
+
+describe('async validation', () => {
+  function defineDelayedSchema(ms: (value: unknown) => number) {
+    return defineStandardSchema<any>(value => {
+      return new Promise(resolve => {
+        setTimeout(() => {
+          resolve(value ? { value } : { issues: [{ message: 'Required', path: [] }] });
+        }, ms(value));
+      });
+    });
+  }
+
+  test('exposes the validating state while the schema is running', async () => {
+    const { validate, isValidating } = await renderSetup(() => {
+      return useFormField({ path: 'field', schema: defineDelayedSchema(() => 100) });
+    });
+
+    expect(isValidating.value).toBe(false);
+    const pending = validate(true);
+    expect(isValidating.value).toBe(true);
+    await vi.advanceTimersByTimeAsync(100);
+    await pending;
+    expect(isValidating.value).toBe(false);
+  });
+
+  test('discards the results of stale validation runs', async () => {
+    const schema = defineDelayedSchema(value => (value ? 10 : 100));
+    const { validate, setValue, errors } = await renderSetup(() => {
+      return useFormField<string>({ path: 'field', schema });
+    });
+
+    const stale = validate(true);
+    setValue('valid');
+    const latest = validate(true);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await stale).toEqual(await latest);
+    expect((await latest).isValid).toBe(true);
+    expect(errors.value).toEqual([]);
+  });
+
+  test('aborts the signal of stale validation runs', async () => {
+    const signals: AbortSignal[] = [];
+    const schema = defineStandardSchema<any>((value, opts?: FieldValidateOptions) => {
+      if (opts) {
+        signals.push(opts.signal);
+      }
+
+      return { value };
+    });
+    const { validate } = await renderSetup(() => {
+      return useFormField({ path: 'field', schema });
+    });
+
+    validate();
+    await validate();
+
+    expect(signals).toHaveLength(2);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  test('resets the validation state when the schema throws', async () => {
+    let shouldThrow = true;
+    const schema = defineStandardSchema<any>(value => {
+      if (shouldThrow) {
+        throw new Error('Schema error');
+      }
+
+      return value ? { value } : { issues: [{ message: 'Required', path: [] }] };
+    });
+    const { validate, isValidating, errors } = await renderSetup(() => {
+      return useFormField({ path: 'field', schema });
+    });
+
+    await expect(validate(true)).rejects.toThrow('Schema error');
+    expect(isValidating.value).toBe(false);
+
+    shouldThrow = false;
+    await validate();
+    expect(errors.value).toEqual([]);
+  });
+
+  test('debounces validation runs', async () => {
+    const validateFn = vi.fn(() => ({ value: 'ok' }));
+    const schema = defineStandardSchema<any>(validateFn);
+    const { validate } = await renderSetup(() => {
+      return useFormField({ path: 'field', schema, validationDebounceMs: 50 });
+    });
+
+    validate();
+    await vi.advanceTimersByTimeAsync(30);
+    validate();
+    await vi.advanceTimersByTimeAsync(30);
+    const last = validate();
+    await vi.advanceTimersByTimeAsync(50);
+    await last;
+
+    expect(validateFn).toHaveBeenCalledOnce();
+  });
+
+  test('the form tracks pending field validations and awaits them on submit', async () => {
+    const onSubmit = vi.fn();
+    const { form, field } = await renderSetup(
+      () => {
+        return { form: useForm() };
+      },
+      () => {
+        const field = useFormField({ path: 'field', schema: defineDelayedSchema(() => 100) });
+        useInputValidity({ field });
+
+        return { field };
+      },
+    );
+
+    field.validate(true);
+    expect(form.isValidating.value).toBe(true);
+    const submitting = form.handleSubmit(onSubmit)();
+    await vi.advanceTimersByTimeAsync(100);
+    await submitting;
+
+    expect(form.isValidating.value).toBe(false);
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(form.isValid()).toBe(false);
+  });
+});
+
+describe('validation dependencies', () => {
+  test('revalidates the field when a dependency value changes', async () => {
+    const { form, confirm } = await renderSetup(
+      () => {
+        return { form: useForm({ initialValues: { password: 'secret', confirm: 'secret' } }) };
+      },
+      () => {
+        const password = useFormField({ path: 'password' });
+        const confirm = useFormField<string>({
+          path: 'confirm',
+          dependsOn: ['password'],
+          schema: defineStandardSchema<any>(value =>
+            value === password.fieldValue.value ? { value } : { issues: [{ message: 'Must match', path: [] }] },
+          ),
+        });
+        useInputValidity({ field: confirm });
+
+        return { confirm };
+      },
+    );
+
+    await flush();
+    expect(confirm.errors.value).toEqual([]);
+
+    form.setValue('password', 'changed');
+    await flush();
+    expect(confirm.errors.value).toEqual(['Must match']);
+
+    form.setValue('password', 'secret');
+    await flush();
+    expect(confirm.errors.value).toEqual([]);
+  });
+
+  test('warns about cyclic dependencies', async () => {
+    const warnFn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await renderSetup(
+      () => {
+        return { form: useForm() };
+      },
+      () => {
+        useInputValidity({ field: useFormField({ path: 'a', dependsOn: ['b'] }) });
+        useInputValidity({ field: useFormField({ path: 'b', dependsOn: ['a'] }) });
+
+        return {};
+      },
+    );
+
+    expect(warnFn).toHaveBeenCalledWith(expect.stringContaining('b -> a -> b'));
+    warnFn.mockRestore();
+  });
+});
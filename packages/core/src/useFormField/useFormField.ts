@@ -1,22 +1,39 @@
 import { computed, inject, MaybeRefOrGetter, nextTick, readonly, Ref, shallowRef, toValue, watch } from 'vue';
+import type { StandardSchemaV1 } from '@standard-schema/spec';
 import { FormContext, FormKey } from '../useForm/useForm';
-import { Arrayable, Getter, StandardSchema, ValidationResult } from '../types';
+import type { ResetFieldOptions } from '../useForm/useFormActions';
+import type { FormFieldKind, FormFieldRegistration } from '../useForm/formFields';
+import { Arrayable, FieldValidateOptions, Getter, StandardSchema, ValidationResult } from '../types';
 import { useSyncModel } from '../reactivity/useModelSync';
 import { cloneDeep, isEqual, normalizeArrayable, combineIssues, tryOnScopeDispose, warn } from '../utils/common';
 import { FormGroupKey } from '../useFormGroup';
 import { useErrorDisplay } from './useErrorDisplay';
 import { usePathPrefixer } from '../helpers/usePathPrefixer';
 import { createDisabledContext } from '../helpers/createDisabledContext';
+import { createReadonlyContext } from '../helpers/createReadonlyContext';
+import { getErrorMessageId } from '../a11y/useErrorMessage';
+
+type FieldValidateFn<TValue> = (
+  value: unknown,
+  opts: FieldValidateOptions,
+) => StandardSchemaV1.Result<TValue> | Promise<StandardSchemaV1.Result<TValue>>;
 
 interface FormFieldOptions<TValue = unknown> {
   path: MaybeRefOrGetter<string | undefined> | undefined;
+  label: MaybeRefOrGetter<string | undefined>;
+  kind: FormFieldKind;
+  inputId: string;
+  focus: (opts?: FocusOptions) => void;
   initialValue: TValue;
   initialTouched: boolean;
   initialDirty: boolean;
   syncModel: boolean;
   modelName: string;
   disabled: MaybeRefOrGetter<boolean | undefined>;
+  readonly: MaybeRefOrGetter<boolean | undefined>;
   schema: StandardSchema<TValue>;
+  validationDebounceMs: MaybeRefOrGetter<number | undefined>;
+  dependsOn: MaybeRefOrGetter<string[] | undefined>;
 }
 
 export type FormField<TValue> = {
@@ -25,6 +42,8 @@ export type FormField<TValue> = {
   isDirty: Ref<boolean>;
   isValid: Ref<boolean>;
   isDisabled: Ref<boolean>;
+  isReadonly: Ref<boolean>;
+  isValidating: Ref<boolean>;
   errors: Ref<string[]>;
   errorMessage: Ref<string>;
   submitErrors: Ref<string[]>;
@@ -33,9 +52,11 @@ export type FormField<TValue> = {
   validate(mutate?: boolean): Promise<ValidationResult>;
   getPath: Getter<string | undefined>;
   getName: Getter<string | undefined>;
+  getDependencies: Getter<string[]>;
   setValue: (value: TValue | undefined) => void;
   setTouched: (touched: boolean) => void;
   setErrors: (messages: Arrayable<string>) => void;
+  reset: (opts?: ResetFieldOptions<TValue>) => void;
   displayError: () => string | undefined;
 };
 
@@ -43,33 +64,45 @@ export function useFormField<TValue = unknown>(opts?: Partial<FormFieldOptions<T
   const form = inject(FormKey, null);
   const formGroup = inject(FormGroupKey, null);
   const pathPrefixer = usePathPrefixer();
-  const isDisabled = createDisabledContext(opts?.disabled);
   const getPath = () => {
     const path = toValue(opts?.path);
 
     return pathPrefixer ? pathPrefixer.prefixPath(path) : path;
   };
+  const isDisabled = createDisabledContext(() => {
+    const path = getPath();
+
+    return toValue(opts?.disabled) || (!!path && !!form?.isPathDisabledByRule(path));
+  });
+  // Derived values are read-only to the fields bound to them since the form drops any writes to them.
+  const isReadonly = createReadonlyContext(() => {
+    const path = getPath();
+
+    return toValue(opts?.readonly) || (!!path && !!form?.isPathDerived(path));
+  });
   const initialValue = opts?.initialValue;
   const { fieldValue, pathlessValue, setValue } = useFieldValue(getPath, form, initialValue);
   const { isTouched, pathlessTouched, setTouched } = useFieldTouched(getPath, form);
   const { errors, setErrors, isValid, errorMessage, pathlessValidity, submitErrors, submitErrorMessage } =
     useFieldValidity(getPath, isDisabled, form);
 
-  const { displayError } = useErrorDisplay(errorMessage, isTouched);
-
+  // Fields without a form path track their own initial value, since resetting them can replace it.
+  const localInitialValue = shallowRef(initialValue);
   const isDirty = computed(() => {
     if (!form) {
-      return !isEqual(fieldValue.value, initialValue);
+      return !isEqual(fieldValue.value, localInitialValue.value);
     }
 
     const path = getPath();
     if (!path) {
-      return !isEqual(pathlessValue.value, initialValue);
+      return !isEqual(pathlessValue.value, localInitialValue.value);
     }
 
     return !isEqual(fieldValue.value, form.getFieldOriginalValue(path));
   });
 
+  const { displayError } = useErrorDisplay(errorMessage, isTouched, isDirty);
+
   if (opts?.syncModel ?? true) {
     useSyncModel({
       model: fieldValue,
@@ -86,7 +119,12 @@ export function useFormField<TValue = unknown>(opts?: Partial<FormFieldOptions<T
     };
   }
 
-  async function validate(mutate?: boolean): Promise<ValidationResult> {
+  const isValidating = shallowRef(false);
+  let pendingValidation: AbortController | undefined;
+  let latestValidation: Promise<ValidationResult> | undefined;
+  let shouldMutate = false;
+
+  function validate(mutate?: boolean): Promise<ValidationResult> {
     const schema = opts?.schema;
     if (!schema) {
       return Promise.resolve(
@@ -100,19 +138,84 @@ export function useFormField<TValue = unknown>(opts?: Partial<FormFieldOptions<T
       }
     }
 
-    const result = await schema['~standard']['validate'](fieldValue.value);
-    const errors = combineIssues(result.issues || []);
-    const output = 'value' in result ? result.value : undefined;
+    // Stale runs are aborted, their callers get the result of the latest run instead.
+    pendingValidation?.abort();
+    const controller = new AbortController();
+    pendingValidation = controller;
+    shouldMutate = shouldMutate || !!mutate;
+    latestValidation = runValidation(schema, controller.signal);
+    form?.trackValidation(latestValidation);
+
+    return latestValidation;
+  }
 
-    if (mutate) {
-      setErrors(errors.map(e => e.messages).flat());
+  async function runValidation(schema: StandardSchema<TValue>, signal: AbortSignal): Promise<ValidationResult> {
+    isValidating.value = true;
+    try {
+      const debounceMs = toValue(opts?.validationDebounceMs) ?? 0;
+      if (debounceMs > 0) {
+        await waitFor(debounceMs, signal);
+        if (signal.aborted) {
+          return latestValidation as Promise<ValidationResult>;
+        }
+      }
+
+      let result: StandardSchemaV1.Result<TValue>;
+      try {
+        result = await (schema['~standard']['validate'] as FieldValidateFn<TValue>)(fieldValue.value, { signal });
+      } catch (err) {
+        // Validators may reject once their run is superseded, the latest run takes over.
+        if (signal.aborted) {
+          return latestValidation as Promise<ValidationResult>;
+        }
+
+        throw err;
+      }
+
+      if (signal.aborted) {
+        return latestValidation as Promise<ValidationResult>;
+      }
+
+      const errors = combineIssues(result.issues || []);
+      const output = 'value' in result ? result.value : undefined;
+
+      if (shouldMutate) {
+        setErrors(errors.map(e => e.messages).flat());
+      }
+
+      return createValidationResult({
+        isValid: errors.length === 0,
+        output,
+        errors,
+      });
+    } finally {
+      // Superseded runs leave the state to the latest run.
+      if (!signal.aborted) {
+        isValidating.value = false;
+        shouldMutate = false;
+      }
     }
+  }
 
-    return createValidationResult({
-      isValid: errors.length === 0,
-      output,
-      errors,
-    });
+  function reset(resetOpts?: ResetFieldOptions<TValue>) {
+    const path = getPath();
+    if (form && path) {
+      form.resetField(path, resetOpts);
+      return;
+    }
+
+    if (resetOpts && 'value' in resetOpts) {
+      localInitialValue.value = resetOpts.value;
+    }
+
+    setValue(cloneDeep(localInitialValue.value));
+    if (!resetOpts?.keepTouched) {
+      setTouched(false);
+    }
+
+    if (!resetOpts?.keepErrors) {
+      setErrors([]);
+    }
   }
 
   const field: FormField<TValue> = {
@@ -123,13 +226,18 @@ export function useFormField<TValue = unknown>(opts?: Partial<FormFieldOptions<T
     errors,
     errorMessage,
     isDisabled,
+    isReadonly,
+    isValidating: readonly(isValidating),
     schema: opts?.schema,
     validate,
     getPath,
     getName: () => toValue(opts?.path),
+    getDependencies: () =>
+      (toValue(opts?.dependsOn) ?? []).map(path => (pathPrefixer ? pathPrefixer.prefixPath(path) : path) ?? path),
     setValue,
     setTouched,
     setErrors,
+    reset,
     displayError,
     submitErrors,
     submitErrorMessage,
@@ -139,13 +247,40 @@ export function useFormField<TValue = unknown>(opts?: Partial<FormFieldOptions<T
     return field;
   }
 
+  const keepValuesOnUnmount = () => formGroup?.keepValuesOnUnmount() ?? false;
+  const registration: FormFieldRegistration = {
+    getPath,
+    getLabel: () => toValue(opts?.label),
+    kind: opts?.kind,
+    inputId: opts?.inputId,
+    errorMessageId: opts?.inputId ? getErrorMessageId(opts.inputId) : undefined,
+    errorMessage,
+    isDisabled,
+    isTouched,
+    isDirty,
+    isValid,
+    focus(focusOpts?: FocusOptions) {
+      // Fields focus their input element by default, unless they have a more specific element to focus.
+      if (opts?.focus) {
+        opts.focus(focusOpts);
+        return;
+      }
+
+      if (opts?.inputId) {
+        document.getElementById(opts.inputId)?.focus(focusOpts);
+      }
+    },
+  };
+
   initFormPathIfNecessary({
     form,
     getPath,
+    registration,
     initialValue,
     initialTouched: opts?.initialTouched ?? false,
     initialDirty: opts?.initialDirty ?? false,
     isDisabled,
+    keepValuesOnUnmount,
   });
 
   form.onSubmitAttempt(() => {
@@ -154,7 +289,9 @@ export function useFormField<TValue = unknown>(opts?: Partial<FormFieldOptions<T
 
   tryOnScopeDispose(() => {
     const path = getPath();
-    if (!path) {
+    if (!path || keepValuesOnUnmount()) {
+      // There is no transaction to commit, so the field leaves right away.
+      form.unregisterField(registration);
       return null;
     }
 
@@ -162,6 +299,7 @@ export function useFormField<TValue = unknown>(opts?: Partial<FormFieldOptions<T
       return {
         kind: DESTROY_PATH,
         path: path,
+        field: registration,
       };
     });
   });
@@ -186,6 +324,7 @@ export function useFormField<TValue = unknown>(opts?: Partial<FormFieldOptions<T
           dirty: oldPath ? tf.isDirty(oldPath) : isDirty.value,
           disabled: isDisabled.value,
           errors: [...(oldPath ? tf.getErrors(oldPath) : pathlessValidity.errors.value)],
+          field: registration,
         };
       });
     }
@@ -203,6 +342,24 @@ export function useFormField<TValue = unknown>(opts?: Partial<FormFieldOptions<T
   return field;
 }
 
+/**
+ * Waits for the given time unless it was aborted before that.
+ */
+function waitFor(ms: number, signal: AbortSignal) {
+  return new Promise<void>(resolve => {
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      resolve();
+    };
+
+    const timer = window.setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 function useFieldValidity(getPath: Getter<string | undefined>, isDisabled: Ref<boolean>, form?: FormContext | null) {
   const validity = form ? createFormValidityRef(getPath, form) : createLocalValidity();
   const errorMessage = computed(() => (isDisabled.value ? '' : (validity.errors.value[0] ?? '')));
@@ -310,10 +467,12 @@ function createLocalValueRef<TValue = unknown>(initialValue?: TValue) {
 interface FormPathInitOptions {
   form: FormContext;
   getPath: Getter<string | undefined>;
+  registration: FormFieldRegistration;
   initialValue: unknown;
   initialTouched: boolean;
   initialDirty: boolean;
   isDisabled: MaybeRefOrGetter<boolean>;
+  keepValuesOnUnmount: Getter<boolean>;
 }
 
 /**
@@ -322,10 +481,12 @@ interface FormPathInitOptions {
 function initFormPathIfNecessary({
   form,
   getPath,
+  registration,
   initialValue,
   initialTouched,
   initialDirty,
   isDisabled,
+  keepValuesOnUnmount,
 }: FormPathInitOptions) {
   const path = getPath();
   if (!path) {
@@ -334,6 +495,22 @@ function initFormPathIfNecessary({
 
   // If form does have a path set and the value is different from the initial value, set it.
   nextTick(() => {
+    // Fields that keep their values re-claim the state they left behind when they were unmounted, or the hydrated one.
+    if ((keepValuesOnUnmount() || form.isHydrating()) && form.isFieldSet(path)) {
+      form.transaction((tf, { INIT_PATH }) => ({
+        kind: INIT_PATH,
+        path,
+        value: cloneDeep(tf.getValue(path)),
+        touched: tf.isTouched(path),
+        dirty: tf.isDirty(path),
+        disabled: toValue(isDisabled),
+        errors: [...tf.getErrors(path)],
+        field: registration,
+      }));
+
+      return;
+    }
+
     form.transaction((tf, { INIT_PATH }) => ({
       kind: INIT_PATH,
       path,
@@ -342,6 +519,7 @@ function initFormPathIfNecessary({
       dirty: initialDirty,
       disabled: toValue(isDisabled),
       errors: [...tf.getErrors(path)],
+      field: registration,
     }));
   });
 }
@@ -442,6 +620,16 @@ export type ExposedField<TValue> = {
    */
   isDisabled: Ref<boolean>;
 
+  /**
+   * Whether the field is readonly, either by its own prop or by a readonly form or form group.
+   */
+  isReadonly: Ref<boolean>;
+
+  /**
+   * Whether the field is currently running its validation.
+   */
+  isValidating: Ref<boolean>;
+
   /**
    * Sets the errors for the field.
    */
@@ -456,6 +644,11 @@ export type ExposedField<TValue> = {
    * Sets the value for the field.
    */
   setValue: (value: TValue) => void;
+
+  /**
+   * Resets the field to its original value and clears its touched, dirty and error states.
+   */
+  reset: (opts?: ResetFieldOptions<TValue>) => void;
 };
 
 export function exposeField<TReturns extends object, TValue>(
@@ -473,6 +666,8 @@ export function exposeField<TReturns extends object, TValue>(
     isTouched: field.isTouched,
     isValid: field.isValid,
     isDisabled: field.isDisabled,
+    isReadonly: field.isReadonly,
+    isValidating: field.isValidating,
     setErrors: __DEV__
       ? (messages: Arrayable<string>) => {
           if (field.isDisabled.value) {
@@ -484,6 +679,7 @@ export function exposeField<TReturns extends object, TValue>(
       : field.setErrors,
     setTouched: field.setTouched,
     setValue: field.setValue,
+    reset: field.reset,
   } satisfies ExposedField<TValue>;
 
   return {
@@ -2,6 +2,7 @@ import { renderSetup } from '@test-utils/renderSetup';
 import { Component } from 'vue';
 import { useFormGroup } from './useFormGroup';
 import { useTextField } from '../useTextField';
+import { useFormField } from '../useFormField';
 import { useForm } from '../useForm';
 import { fireEvent, render, screen } from '@testing-library/vue';
 import { flush, defineStandardSchema } from '@test-utils/index';
@@ -548,6 +549,96 @@ describe('disabling HTML validation', () => {
   });
 });
 
+test('resets its fields without affecting the rest of the form', async () => {
+  let form!: ReturnType<typeof useForm>;
+  let group!: ReturnType<typeof useFormGroup>;
+  await render({
+    components: { TInput: createInputComponent(), TGroup: createGroupComponent(fg => (group = fg)) },
+    setup() {
+      form = useForm({ initialValues: { group: { field1: 'foo' }, field2: 'bar' } });
+
+      return {};
+    },
+    template: `
+      <TGroup name="group">
+        <TInput name="field1" />
+      </TGroup>
+
+      <TInput name="field2" />
+    `,
+  });
+
+  await flush();
+  await fireEvent.update(screen.getByTestId('field1'), 'changed');
+  await fireEvent.blur(screen.getByTestId('field1'));
+  await fireEvent.update(screen.getByTestId('field2'), 'changed');
+  await flush();
+  expect(group.isDirty.value).toBe(true);
+
+  group.reset();
+  await flush();
+  expect(screen.getByTestId('field1')).toHaveValue('foo');
+  expect(group.isDirty.value).toBe(false);
+  expect(group.isTouched.value).toBe(false);
+  expect(form.values).toEqual({ group: { field1: 'foo' }, field2: 'changed' });
+});
+
+describe('readonly', () => {
+  test('cascades from the form and the group to their fields', async () => {
+    const ReadonlyGroup: Component = {
+      setup: () => {
+        useFormGroup({ name: 'group', readonly: true });
+
+        return {};
+      },
+      template: `<slot />`,
+    };
+
+    await render({
+      components: { TInput: createInputComponent(), ReadonlyGroup },
+      setup() {
+        useForm();
+
+        return {};
+      },
+      template: `
+        <ReadonlyGroup>
+          <TInput name="field1" />
+        </ReadonlyGroup>
+
+        <TInput name="field2" />
+      `,
+    });
+
+    expect(screen.getByTestId('field1')).toHaveAttribute('readonly');
+    expect(screen.getByTestId('field1')).not.toBeDisabled();
+    expect(screen.getByTestId('field2')).not.toHaveAttribute('readonly');
+  });
+
+  test('keeps readonly values in the submission', async () => {
+    const handler = vi.fn();
+    await render({
+      components: { TInput: createInputComponent() },
+      setup() {
+        const { handleSubmit, isReadonly } = useForm({ readonly: true, initialValues: { field: 'value' } });
+
+        return { isReadonly, onSubmit: handleSubmit(v => handler(v.toObject())) };
+      },
+      template: `
+        <TInput name="field" />
+        <span data-testid="readonly">{{ isReadonly }}</span>
+        <button @click="onSubmit">Submit</button>
+      `,
+    });
+
+    await fireEvent.click(screen.getByText('Submit'));
+    await flush();
+    expect(screen.getByTestId('field')).toHaveAttribute('readonly');
+    expect(screen.getByTestId('readonly')).toHaveTextContent('true');
+    expect(handler).toHaveBeenCalledWith({ field: 'value' });
+  });
+});
+
 describe('group props rendering', () => {
   test('renders correct attributes on fieldset element', async () => {
     const FieldsetGroup = {
@@ -603,3 +694,34 @@ describe('group props rendering', () => {
     expect(div).toHaveAttribute('aria-labelledby');
   });
 });
+
+test('revalidates the group when a dependency value changes', async () => {
+  const { form } = await renderSetup(
+    () => {
+      const form = useForm({ initialValues: { limit: 5, group: { count: 3 } } });
+
+      return { form };
+    },
+    () => {
+      const limit = useFormField<number>({ path: 'limit' });
+      const schema = defineStandardSchema<{ count: number }>(value => {
+        const group = value as { count: number };
+
+        return group.count > (limit.fieldValue.value ?? 0)
+          ? { issues: [{ message: 'Too many', path: ['count'] }] }
+          : { value: group };
+      });
+
+      useFormGroup({ name: 'group', schema, dependsOn: ['limit'] });
+
+      return {};
+    },
+  );
+
+  await flush();
+  expect(form.getError('group.count')).toBeUndefined();
+
+  form.setValue('limit', 2);
+  await flush();
+  expect(form.getError('group.count')).toBe('Too many');
+});
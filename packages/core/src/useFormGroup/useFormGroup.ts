@@ -13,10 +13,13 @@ import { normalizeProps, useUniqId, warn, withRefCapture } from '../utils/common
 import { FormKey } from '../useForm';
 import { useValidationProvider } from '../validation/useValidationProvider';
 import { FormValidationMode } from '../useForm/formContext';
+import { ResetFieldOptions } from '../useForm/useFormActions';
 import { prefixPath as _prefixPath } from '../utils/path';
 import { getConfig } from '../config';
 import { createPathPrefixer, usePathPrefixer } from '../helpers/usePathPrefixer';
 import { createDisabledContext } from '../helpers/createDisabledContext';
+import { createReadonlyContext } from '../helpers/createReadonlyContext';
+import { useDependentValidation } from '../validation/useDependentValidation';
 
 export interface FormGroupProps<TInput extends FormObject = FormObject, TOutput extends FormObject = TInput> {
   /**
@@ -39,13 +42,28 @@ export interface FormGroupProps<TInput extends FormObject = FormObject, TOutput
    */
   disabled?: boolean;
 
+  /**
+   * Whether the form group is readonly.
+   */
+  readonly?: boolean;
+
   /**
    * Whether HTML5 validation should be disabled for this form group.
    */
   disableHtmlValidation?: boolean;
+
+  /**
+   * Whether the fields in this group should keep their values in the form when they are unmounted.
+   */
+  keepValuesOnUnmount?: boolean;
+
+  /**
+   * Paths that should trigger the group's validation when their values change.
+   */
+  dependsOn?: string[];
 }
 
-interface GroupProps extends AriaLabelableProps {
+export interface GroupProps extends AriaLabelableProps {
   id: string;
   role?: 'group';
 }
@@ -56,6 +74,7 @@ export interface FormGroupContext<TOutput extends FormObject = FormObject> {
   requestValidation(): Promise<GroupValidationResult<TOutput>>;
   getValidationMode(): FormValidationMode;
   isHtmlValidationDisabled(): boolean;
+  keepValuesOnUnmount(): boolean;
 }
 
 export const FormGroupKey: InjectionKey<FormGroupContext> = Symbol('FormGroup');
@@ -83,6 +102,7 @@ export function useFormGroup<TInput extends FormObject = FormObject, TOutput ext
   const form = inject(FormKey, null);
   const parentGroup = inject(FormGroupKey, null);
   const isDisabled = createDisabledContext(props.disabled);
+  const isReadonly = createReadonlyContext(props.readonly);
   const isHtmlValidationDisabled = () =>
     toValue(props.disableHtmlValidation) ?? form?.isHtmlValidationDisabled() ?? getConfig().disableHtmlValidation;
   const { validate, onValidationDispatch, defineValidationRequest, onValidationDone, dispatchValidateDone } =
@@ -108,6 +128,13 @@ export function useFormGroup<TInput extends FormObject = FormObject, TOutput ext
     dispatchValidateDone();
   });
 
+  useDependentValidation(
+    form,
+    getPath,
+    () => (toValue(props.dependsOn) ?? []).map(path => (pathPrefixer ? pathPrefixer.prefixPath(path) : path) ?? path),
+    requestValidation,
+  );
+
   if (!form) {
     warn('Form groups must have a parent form. Please make sure to call `useForm` at a parent component.');
   }
@@ -156,7 +183,13 @@ export function useFormGroup<TInput extends FormObject = FormObject, TOutput ext
     const msg = getError(name);
     const path = prefixPath(name) ?? '';
 
-    return form?.isTouched(path) ? msg : undefined;
+    const isDisplayed = form?.shouldDisplayError({ isTouched: form.isTouched(path), isDirty: form.isDirty(path) });
+
+    return isDisplayed ? msg : undefined;
+  }
+
+  function reset(opts?: ResetFieldOptions<Partial<TInput>>) {
+    form?.resetGroup(getPath(), opts);
   }
 
   function prefixPath(path: string | undefined) {
@@ -171,6 +204,7 @@ export function useFormGroup<TInput extends FormObject = FormObject, TOutput ext
     requestValidation,
     getValidationMode: () => (props.schema ? 'schema' : 'aggregate'),
     isHtmlValidationDisabled,
+    keepValuesOnUnmount: () => toValue(props.keepValuesOnUnmount) ?? parentGroup?.keepValuesOnUnmount() ?? false,
   };
 
   // Whenever the form is validated, it is deferred to the form group to do that.
@@ -220,6 +254,10 @@ export function useFormGroup<TInput extends FormObject = FormObject, TOutput ext
      * Whether the form group is disabled.
      */
     isDisabled,
+    /**
+     * Whether the form group is readonly.
+     */
+    isReadonly,
     /**
      * Displays an error for a given field.
      */
@@ -245,5 +283,9 @@ export function useFormGroup<TInput extends FormObject = FormObject, TOutput ext
      * Gets the error for a given field.
      */
     getError,
+    /**
+     * Resets the group's fields to their original values and clears their touched, dirty and error states.
+     */
+    reset,
   };
 }
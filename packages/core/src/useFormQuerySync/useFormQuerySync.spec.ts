@@ -0,0 +1,151 @@
+import { flush, renderSetup } from '@test-utils/index';
+import { useForm } from '../useForm';
+import { useFormQuerySync } from './useFormQuerySync';
+
+function setUrl(url: string) {
+  window.history.replaceState(null, '', url);
+}
+
+beforeEach(() => {
+  setUrl('/');
+});
+
+test('mirrors the changed paths into the query string', async () => {
+  setUrl('/products?page=2#list');
+  const { form } = await renderSetup(() => {
+    const form = useForm({ initialValues: { search: '', colors: [] as string[], price: [0, 100], other: 'x' } });
+    useFormQuerySync(form, { paths: ['search', 'colors', 'price'] });
+
+    return { form };
+  });
+
+  await flush();
+  form.setValue('search', 'shoes');
+  form.setValue('colors', ['red', 'blue']);
+  form.setValue('other', 'y');
+  await vi.advanceTimersByTimeAsync(300);
+
+  expect(window.location.pathname).toBe('/products');
+  expect(window.location.hash).toBe('#list');
+  expect(new URLSearchParams(window.location.search).toString()).toBe(
+    'page=2&search=shoes&colors%5B0%5D=red&colors%5B1%5D=blue',
+  );
+
+  form.setValue('search', '');
+  form.setValue('colors', []);
+  await vi.advanceTimersByTimeAsync(300);
+  expect(window.location.search).toBe('?page=2');
+});
+
+test('restores the values from the query string on load', async () => {
+  setUrl('/?search=shoes&colors=red&colors=blue&price[0]=10&price[1]=50&inStock=true');
+  const { form } = await renderSetup(() => {
+    const form = useForm({ initialValues: { search: '', colors: [] as string[], price: [0, 100], inStock: false } });
+    useFormQuerySync(form, { paths: ['search', 'colors', 'price', 'inStock'] });
+
+    return { form };
+  });
+
+  await flush();
+  expect(form.values).toEqual({ search: 'shoes', colors: ['red', 'blue'], price: [10, 50], inStock: true });
+  expect(form.isDirty('price')).toBe(true);
+});
+
+test('only parses the synced paths from the query string', async () => {
+  setUrl('/?search=shoes&__proto__.polluted=yes&__proto__[polluted]=yes&other=y&searchy=x');
+  const { form } = await renderSetup(() => {
+    const form = useForm({ initialValues: { search: '', other: 'x' } });
+    useFormQuerySync(form, { paths: ['search'] });
+
+    return { form };
+  });
+
+  await flush();
+  expect(form.values).toEqual({ search: 'shoes', other: 'x' });
+  expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+});
+
+test('pushes a single history entry for quick changes and restores the values on popstate', async () => {
+  const { form } = await renderSetup(() => {
+    const form = useForm({ initialValues: { search: '' } });
+    useFormQuerySync(form, { paths: ['search'], history: 'push' });
+
+    return { form };
+  });
+
+  await flush();
+  const length = window.history.length;
+  form.setValue('search', 's');
+  form.setValue('search', 'sho');
+  await vi.advanceTimersByTimeAsync(100);
+  form.setValue('search', 'shoes');
+  expect(window.history.length).toBe(length);
+  await vi.advanceTimersByTimeAsync(300);
+  expect(window.history.length).toBe(length + 1);
+  expect(window.location.search).toBe('?search=shoes');
+
+  setUrl('/');
+  window.dispatchEvent(new PopStateEvent('popstate'));
+  expect(form.values.search).toBe('');
+  expect(window.location.search).toBe('');
+});
+
+test('accepts a custom serializer', async () => {
+  setUrl('/?q=shoes');
+  const { form } = await renderSetup(() => {
+    const form = useForm({ initialValues: { search: '' } });
+    useFormQuerySync(form, {
+      paths: ['search'],
+      serializer: {
+        stringify: values => new URLSearchParams(values.search ? { q: String(values.search) } : {}).toString(),
+        parse: query => ({ search: new URLSearchParams(query).get('q') ?? undefined }),
+      },
+    });
+
+    return { form };
+  });
+
+  await flush();
+  expect(form.values.search).toBe('shoes');
+  form.setValue('search', 'boots');
+  await vi.advanceTimersByTimeAsync(300);
+  expect(window.location.search).toBe('?q=boots');
+});
+
+test('keeps syncing after a restore throws', async () => {
+  let shouldThrow = false;
+  const { form } = await renderSetup(() => {
+    const form = useForm({ initialValues: { search: '' } });
+    useFormQuerySync(form, {
+      paths: ['search'],
+      serializer: {
+        stringify: values => new URLSearchParams(values.search ? { q: String(values.search) } : {}).toString(),
+        parse: query => ({
+          get search() {
+            if (shouldThrow) {
+              throw new Error('Malformed query');
+            }
+
+            return new URLSearchParams(query).get('q') ?? undefined;
+          },
+        }),
+      },
+    });
+
+    return { form };
+  });
+
+  await flush();
+  shouldThrow = true;
+  setUrl('/?q=%');
+  const onError = vi.fn((e: ErrorEvent) => e.preventDefault());
+  window.addEventListener('error', onError);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+  window.removeEventListener('error', onError);
+  expect(onError).toHaveBeenCalled();
+
+  shouldThrow = false;
+  form.setValue('search', 'boots');
+  await vi.advanceTimersByTimeAsync(300);
+  expect(window.location.search).toBe('?q=boots');
+});
@@ -0,0 +1,217 @@
+import { nextTick, onMounted } from 'vue';
+import { FormObject, Path, PathValue } from '../types';
+import { cloneDeep, debounce, isEmpty, isEqual, isSSR, tryOnScopeDispose } from '../utils/common';
+import { getFromPath, setInPath } from '../utils/path';
+import { appendToURLSearchParams, fromFormData } from '../utils/formData';
+import { isObject } from '../../../shared/src';
+import { useEventListener } from '../helpers/useEventListener';
+import { BaseFormContext } from '../useForm/formContext';
+
+export interface FormQuerySerializer {
+  /**
+   * Converts the synced values to a query string.
+   */
+  stringify(values: FormObject): string;
+
+  /**
+   * Converts a query string back to the synced values.
+   */
+  parse(query: string): FormObject;
+}
+
+export interface FormQuerySyncOptions<TForm extends FormObject = FormObject> {
+  /**
+   * The form paths to mirror into the query string.
+   */
+  paths: Path<TForm>[];
+
+  /**
+   * Whether value changes add a new history entry or replace the current one, defaults to `replace`.
+   */
+  history?: 'push' | 'replace';
+
+  /**
+   * The number of milliseconds to wait after a change before writing to the query string, so typing adds a single history entry.
+   */
+  debounceMs?: number;
+
+  /**
+   * Converts the values to and from a query string, defaults to the form data serialization with dotted keys.
+   */
+  serializer?: FormQuerySerializer;
+}
+
+interface QuerySyncedForm<TForm extends FormObject> {
+  context: BaseFormContext<TForm>;
+}
+
+const DEFAULT_QUERY_SYNC_DEBOUNCE_MS = 300;
+
+function createDefaultSerializer(paths: string[]): FormQuerySerializer {
+  // The query string can be crafted by anyone, so only the keys of the synced paths are parsed.
+  const isSyncedKey = (key: string) =>
+    paths.some(path => key === path || key.startsWith(`${path}.`) || key.startsWith(`${path}[`));
+
+  return {
+    stringify: values =>
+      appendToURLSearchParams(values, new URLSearchParams(), { keyStyle: 'dots', nulls: 'omit' }).toString(),
+    parse: query => {
+      const params = new URLSearchParams();
+      new URLSearchParams(query).forEach((value, key) => {
+        if (isSyncedKey(key)) {
+          params.append(key, value);
+        }
+      });
+
+      return fromFormData(params, 'dots');
+    },
+  };
+}
+
+/**
+ * Keeps the given form paths in sync with the page's query string, values are restored on load and on history navigation.
+ * @example
+ * ```ts
+ * const form = useForm({ initialValues: { search: '', price: [0, 100] } });
+ *
+ * useFormQuerySync(form, { paths: ['search', 'price'] });
+ * ```
+ */
+export function useFormQuerySync<TForm extends FormObject>(
+  form: QuerySyncedForm<TForm>,
+  opts: FormQuerySyncOptions<TForm>,
+) {
+  const ctx = form.context;
+  const serializer = opts.serializer ?? createDefaultSerializer(opts.paths);
+  let isRestored = false;
+  let isRestoring = false;
+
+  // A query param belongs to the form if it parses to one of the synced paths, anything else is left untouched.
+  function isOwnParam(key: string, value: string) {
+    const data = serializer.parse(new URLSearchParams([[key, value]]).toString());
+
+    return opts.paths.some(path => getFromPath(data, path) !== undefined);
+  }
+
+  function isOriginalValue<TPath extends Path<TForm>>(path: TPath) {
+    const value = ctx.getValue(path);
+    const original = ctx.getFieldOriginalValue(path);
+
+    return isEqual(value, original) || (isEmptyValue(value) && isEmptyValue(original));
+  }
+
+  function toQuery() {
+    // Only the values that differ from the original ones are kept, so unfiltered pages keep clean URLs.
+    const synced: FormObject = {};
+    for (const path of opts.paths) {
+      if (!isOriginalValue(path)) {
+        setInPath(synced, path, cloneDeep(ctx.getValue(path)));
+      }
+    }
+
+    const params = new URLSearchParams();
+    new URLSearchParams(window.location.search).forEach((value, key) => {
+      if (!isOwnParam(key, value)) {
+        params.append(key, value);
+      }
+    });
+
+    new URLSearchParams(serializer.stringify(synced)).forEach((value, key) => params.append(key, value));
+
+    return params.toString();
+  }
+
+  const write = debounce(opts.debounceMs ?? DEFAULT_QUERY_SYNC_DEBOUNCE_MS, () => {
+    if (!isRestored || isRestoring) {
+      return;
+    }
+
+    const query = toQuery();
+    if (`?${query}` === window.location.search || (!query && !window.location.search)) {
+      return;
+    }
+
+    const { pathname, hash } = window.location;
+    const url = `${pathname}${query ? `?${query}` : ''}${hash}`;
+    if (opts.history === 'push') {
+      window.history.pushState(window.history.state, '', url);
+      return;
+    }
+
+    window.history.replaceState(window.history.state, '', url);
+  });
+
+  function restore() {
+    // The restored query is already in the URL, a pending write would replace it with the values it navigated away from.
+    write.cancel();
+    isRestoring = true;
+    try {
+      const data = serializer.parse(window.location.search.replace(/^\?/, ''));
+      ctx.withValueChangeSource('setValues', () => {
+        for (const path of opts.paths) {
+          const original = ctx.getFieldOriginalValue(path);
+          const value = getFromPath(data, path);
+          // Paths missing from the query are back to their original values, like when navigating to an unfiltered page.
+          const restored = value === undefined ? cloneDeep(original) : coerce(value, original ?? ctx.getValue(path));
+          if (!isEqual(restored, ctx.getValue(path))) {
+            ctx.setValue(path, restored as PathValue<TForm, typeof path>);
+          }
+        }
+      });
+    } finally {
+      isRestoring = false;
+    }
+  }
+
+  if (!isSSR) {
+    // Restoring waits for the mounted fields to initialize their paths, so they don't override the restored values.
+    onMounted(async () => {
+      await nextTick();
+      restore();
+      isRestored = true;
+    });
+
+    ctx.onValueChange(opts.paths, () => write(), { deep: true });
+    tryOnScopeDispose(write.cancel);
+    useEventListener(window, 'popstate', () => {
+      if (isRestored) {
+        restore();
+      }
+    });
+  }
+}
+
+function isEmptyValue(value: unknown) {
+  return isEmpty(value) || (Array.isArray(value) && !value.length);
+}
+
+/**
+ * Query values are always strings, so they are converted back to the type of the value they replace.
+ */
+function coerce(value: unknown, reference: unknown): unknown {
+  if (Array.isArray(reference)) {
+    const items = Array.isArray(value) ? value : [value];
+
+    return items.map((item, idx) => coerce(item, reference[idx] ?? reference[0]));
+  }
+
+  if (isObject(reference) && isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, coerce(item, reference[key])]));
+  }
+
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  if (typeof reference === 'number') {
+    const num = Number(value);
+
+    return value === '' || Number.isNaN(num) ? undefined : num;
+  }
+
+  if (typeof reference === 'boolean') {
+    return value === 'true' || value === '1';
+  }
+
+  return value;
+}
@@ -2,6 +2,9 @@ import { defineComponent } from 'vue';
 import { render, screen, fireEvent } from '@testing-library/vue';
 import { useFormRepeater, FormRepeaterProps } from './useFormRepeater';
 import { flush } from '@test-utils/index';
+import { useForm } from '../useForm';
+import { useTextField } from '../useTextField';
+import { JSONPatchOperation } from '../utils/patch';
 
 async function renderTest(props: FormRepeaterProps) {
   const { addButtonProps, items, Iteration, swap, insert, remove, move } = useFormRepeater(props);
@@ -417,3 +420,118 @@ test('warns if swap is called with an out of bounds index', async () => {
   expect(warn).toHaveBeenCalledOnce();
   warn.mockRestore();
 });
+
+describe('submission patches', () => {
+  function applyJSONPatch(target: unknown, ops: JSONPatchOperation[]) {
+    const doc = JSON.parse(JSON.stringify(target));
+    for (const op of ops) {
+      const keys = op.path
+        .split('/')
+        .slice(1)
+        .map(key => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+      const last = keys.pop() as string;
+      const parent = keys.reduce((acc, key) => acc[key], doc);
+      if (Array.isArray(parent)) {
+        const idx = Number(last);
+        if (op.op === 'add') {
+          parent.splice(idx, 0, op.value);
+        } else if (op.op === 'remove') {
+          parent.splice(idx, 1);
+        } else {
+          parent[idx] = op.value;
+        }
+
+        continue;
+      }
+
+      if (op.op === 'remove') {
+        delete parent[last];
+      } else {
+        parent[last] = op.value;
+      }
+    }
+
+    return doc;
+  }
+
+  async function renderRepeaterForm() {
+    const initialValues = { items: [{ name: 'a' }, { name: 'b' }, { name: 'c' }] };
+    const TInput = defineComponent({
+      props: ['name'],
+      setup(props) {
+        const { inputProps } = useTextField({ name: props.name, label: props.name });
+
+        return { inputProps };
+      },
+      template: `<input v-bind="inputProps" />`,
+    });
+
+    let form!: ReturnType<typeof useForm<any>>;
+    let repeater!: ReturnType<typeof useFormRepeater>;
+    const TRepeater = defineComponent({
+      components: { TInput },
+      setup() {
+        repeater = useFormRepeater({ name: 'items' });
+
+        return { items: repeater.items, Iteration: repeater.Iteration };
+      },
+      template: `
+        <component :is="Iteration" v-for="(key, index) in items" :key="key" :index="index">
+          <TInput name="name" />
+        </component>
+      `,
+    });
+
+    await render({
+      components: { TRepeater },
+      setup() {
+        form = useForm<any>({ initialValues });
+
+        return {};
+      },
+      template: `<TRepeater />`,
+    });
+
+    await flush();
+
+    async function submit() {
+      let patches!: { patch: unknown; ops: JSONPatchOperation[]; output: unknown };
+      await form.handleSubmit(data => {
+        patches = { patch: data.toPatch(), ops: data.toJSONPatch(), output: data.toObject() };
+      })();
+
+      return patches;
+    }
+
+    return { form, repeater, initialValues, submit };
+  }
+
+  test('produces add operations for inserted items', async () => {
+    const { form, repeater, initialValues, submit } = await renderRepeaterForm();
+
+    repeater.insert(1);
+    await flush();
+    form.setValue('items.1.name', 'new');
+    await flush();
+
+    const { patch, ops, output } = await submit();
+    expect(ops).toEqual([{ op: 'add', path: '/items/1', value: { name: 'new' } }]);
+    expect(patch).toEqual({ items: [{ name: 'a' }, { name: 'new' }, { name: 'b' }, { name: 'c' }] });
+    expect(applyJSONPatch(initialValues, ops)).toEqual(output);
+  });
+
+  test('produces operations that reproduce moved items', async () => {
+    const { repeater, initialValues, submit } = await renderRepeaterForm();
+
+    repeater.move(2, 0);
+    await flush();
+
+    const { ops, output } = await submit();
+    expect(output).toEqual({ items: [{ name: 'c' }, { name: 'a' }, { name: 'b' }] });
+    expect(ops).toEqual([
+      { op: 'add', path: '/items/0', value: { name: 'c' } },
+      { op: 'remove', path: '/items/3' },
+    ]);
+    expect(applyJSONPatch(initialValues, ops)).toEqual(output);
+  });
+});
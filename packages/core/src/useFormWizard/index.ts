@@ -0,0 +1,2 @@
+export * from './useFormWizard';
+export * from './useFormStep';
@@ -0,0 +1,72 @@
+import { computed, inject, Ref, toValue } from 'vue';
+import { FormObject, Reactivify, StandardSchema } from '../types';
+import { tryOnScopeDispose, warn } from '../utils/common';
+import { FormKey } from '../useForm';
+import { useFormGroup } from '../useFormGroup';
+import { usePathPrefixer } from '../helpers/usePathPrefixer';
+import { FormWizardKey } from './useFormWizard';
+
+export interface FormStepProps<TInput extends FormObject = FormObject, TOutput extends FormObject = TInput> {
+  /**
+   * The name/path of the step, it must be one of the wizard's steps.
+   */
+  name: string;
+
+  /**
+   * The label for the step.
+   */
+  label?: string;
+
+  /**
+   * The validation schema for the step.
+   */
+  schema?: StandardSchema<TInput, TOutput>;
+
+  /**
+   * Whether the step is disabled.
+   */
+  disabled?: boolean;
+}
+
+export function useFormStep<TInput extends FormObject = FormObject, TOutput extends FormObject = TInput>(
+  props: Reactivify<FormStepProps<TInput, TOutput>, 'schema'>,
+  elementRef?: Ref<HTMLElement>,
+) {
+  const form = inject(FormKey, null);
+  const wizard = inject(FormWizardKey, null);
+  const pathPrefixer = usePathPrefixer();
+  // Steps keep their values when they are unmounted since only the active step is usually rendered.
+  const group = useFormGroup<TInput, TOutput>({ ...props, keepValuesOnUnmount: true }, elementRef);
+  const getName = () => toValue(props.name);
+  const getPath = () => (pathPrefixer ? pathPrefixer.prefixPath(getName()) : getName()) ?? '';
+
+  if (!wizard) {
+    warn('Form steps must have a parent wizard. Please make sure to call `useFormWizard` at a parent component.');
+  }
+
+  async function validate() {
+    const result = await group.validate();
+    if (!result.isValid) {
+      // Reveals the step errors to the user.
+      form?.setTouched(getPath(), true);
+      form?.requestValidation();
+    }
+
+    return result.isValid;
+  }
+
+  const unregister = wizard?.registerStep({ name: getName(), validate });
+  tryOnScopeDispose(() => unregister?.());
+
+  return {
+    ...group,
+    /**
+     * Whether the step is the wizard's current step.
+     */
+    isActive: computed(() => wizard?.isStepActive(getName()) ?? false),
+    /**
+     * Whether the step was completed.
+     */
+    isComplete: computed(() => wizard?.isStepComplete(getName()) ?? false),
+  };
+}
@@ -0,0 +1,171 @@
+import { Component } from 'vue';
+import { fireEvent, render, screen } from '@testing-library/vue';
+import { flush } from '@test-utils/index';
+import { useForm } from '../useForm';
+import { useTextField } from '../useTextField';
+import { useFormWizard } from './useFormWizard';
+import { useFormStep } from './useFormStep';
+
+function createInputComponent(): Component {
+  return {
+    inheritAttrs: false,
+    setup: (_, { attrs }) => {
+      const name = attrs.name as string;
+      const { inputProps, errorMessage } = useTextField({ name, label: name, required: true });
+
+      return { inputProps, errorMessage, name };
+    },
+    template: `
+      <input v-bind="inputProps" :data-testid="name" />
+      <span :data-testid="name + '-err'">{{ errorMessage }}</span>
+    `,
+  };
+}
+
+function createStepComponent(): Component {
+  return {
+    inheritAttrs: false,
+    setup: (_, { attrs }) => {
+      const { isComplete } = useFormStep({ name: attrs.name as string });
+
+      return { isComplete };
+    },
+    template: `<slot />`,
+  };
+}
+
+async function renderWizard() {
+  let form!: ReturnType<typeof useForm>;
+  let wizard!: ReturnType<typeof useFormWizard>;
+  const onSubmit = vi.fn();
+
+  const Wizard: Component = {
+    components: { TInput: createInputComponent(), TStep: createStepComponent() },
+    setup() {
+      wizard = useFormWizard({ steps: ['personal', 'address', 'review'] });
+
+      return { wizard };
+    },
+    template: `
+      <TStep v-if="wizard.isStepActive('personal')" name="personal">
+        <TInput name="name" />
+      </TStep>
+      <TStep v-if="wizard.isStepActive('address')" name="address">
+        <TInput name="city" />
+      </TStep>
+      <TStep v-if="wizard.isStepActive('review')" name="review" />
+    `,
+  };
+
+  await render({
+    components: { Wizard },
+    setup() {
+      form = useForm();
+
+      return { onSubmit: form.handleSubmit(data => onSubmit(data.toObject())) };
+    },
+    template: `
+      <form @submit="onSubmit" novalidate>
+        <Wizard />
+        <button type="submit">Submit</button>
+      </form>
+    `,
+  });
+
+  await flush();
+
+  return { form, wizard, onSubmit };
+}
+
+test('only moves to the next step if the current step is valid', async () => {
+  const { wizard } = await renderWizard();
+
+  expect(wizard.currentStep.value).toBe(0);
+  expect(await wizard.next()).toBe(false);
+  expect(wizard.currentStep.value).toBe(0);
+  expect(wizard.isStepComplete('personal')).toBe(false);
+
+  await fireEvent.update(screen.getByTestId('name'), 'John');
+  await flush();
+  expect(await wizard.next()).toBe(true);
+  await flush();
+  expect(wizard.currentStep.value).toBe(1);
+  expect(wizard.currentStepName.value).toBe('address');
+  expect(wizard.isStepComplete('personal')).toBe(true);
+  expect(screen.getByTestId('city')).toBeDefined();
+});
+
+test('reveals the step errors when validation fails', async () => {
+  const { wizard, form } = await renderWizard();
+
+  expect(form.isTouched('personal')).toBe(false);
+  await wizard.next();
+  await flush();
+  expect(form.isTouched('personal')).toBe(true);
+  expect(screen.getByTestId('name-err').textContent).toBe('Constraints not satisfied');
+});
+
+test('keeps the values of unmounted steps', async () => {
+  const { wizard, form } = await renderWizard();
+
+  await fireEvent.update(screen.getByTestId('name'), 'John');
+  await flush();
+  await wizard.next();
+  await flush();
+  expect(form.values).toEqual({ personal: { name: 'John' }, address: { city: undefined } });
+
+  await wizard.previous();
+  await flush();
+  expect(form.values).toEqual({ personal: { name: 'John' }, address: { city: undefined } });
+  expect((screen.getByTestId('name') as HTMLInputElement).value).toBe('John');
+  expect(wizard.isStepDirty('personal')).toBe(true);
+  expect(wizard.isStepDirty('address')).toBe(false);
+});
+
+test('can only jump forward over completed steps', async () => {
+  const { wizard } = await renderWizard();
+
+  await fireEvent.update(screen.getByTestId('name'), 'John');
+  await flush();
+  expect(await wizard.goTo('review')).toBe(false);
+  expect(wizard.currentStep.value).toBe(0);
+
+  await wizard.next();
+  await flush();
+  await fireEvent.update(screen.getByTestId('city'), 'Cairo');
+  await flush();
+  await wizard.next();
+  await flush();
+  expect(wizard.isLastStep.value).toBe(true);
+
+  expect(await wizard.goTo(0)).toBe(true);
+  await flush();
+  expect(await wizard.goTo('review')).toBe(true);
+  expect(wizard.currentStep.value).toBe(2);
+});
+
+test('submits the values of all steps through the parent form', async () => {
+  const { wizard, onSubmit } = await renderWizard();
+
+  await fireEvent.update(screen.getByTestId('name'), 'John');
+  await flush();
+  await wizard.next();
+  await flush();
+  await fireEvent.update(screen.getByTestId('city'), 'Cairo');
+  await flush();
+  await wizard.next();
+  await flush();
+
+  await fireEvent.click(screen.getByText('Submit'));
+  await flush();
+  expect(onSubmit).toHaveBeenCalledWith({ personal: { name: 'John' }, address: { city: 'Cairo' }, review: {} });
+});
+
+test('warns if an unknown step is requested', async () => {
+  const warnFn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  const { wizard } = await renderWizard();
+
+  expect(await wizard.goTo('unknown')).toBe(false);
+  expect(warnFn).toHaveBeenCalled();
+  warnFn.mockRestore();
+});
@@ -0,0 +1,195 @@
+import { computed, inject, InjectionKey, provide, readonly, shallowRef, toValue } from 'vue';
+import { Reactivify } from '../types';
+import { normalizeProps, warn } from '../utils/common';
+import { FormKey } from '../useForm';
+
+export interface FormWizardProps {
+  /**
+   * The names of the wizard steps in order, each name is the path of the step's form group.
+   */
+  steps: string[];
+
+  /**
+   * The step to start at, either its index or its name.
+   */
+  initialStep?: number | string;
+}
+
+export interface FormWizardStepRegistration {
+  name: string;
+  validate(): Promise<boolean>;
+}
+
+export interface FormWizardContext {
+  registerStep(step: FormWizardStepRegistration): () => void;
+  isStepActive(step: number | string): boolean;
+  isStepComplete(step: number | string): boolean;
+}
+
+export const FormWizardKey: InjectionKey<FormWizardContext> = Symbol('FormWizard');
+
+export function useFormWizard(_props: Reactivify<FormWizardProps>) {
+  const props = normalizeProps(_props);
+  const form = inject(FormKey, null);
+  const registeredSteps = new Map<string, FormWizardStepRegistration>();
+  const completedSteps = shallowRef<string[]>([]);
+  const getSteps = () => toValue(props.steps) ?? [];
+  const currentStep = shallowRef(resolveStepIndex(toValue(props.initialStep) ?? 0) ?? 0);
+  const currentStepName = computed(() => getSteps()[currentStep.value]);
+  const isFirstStep = computed(() => currentStep.value === 0);
+  const isLastStep = computed(() => currentStep.value === getSteps().length - 1);
+
+  if (!form) {
+    warn('Form wizards must have a parent form. Please make sure to call `useForm` at a parent component.');
+  }
+
+  function resolveStepIndex(step: number | string): number | undefined {
+    const idx = typeof step === 'number' ? step : getSteps().indexOf(step);
+    if (idx < 0 || idx >= getSteps().length) {
+      return undefined;
+    }
+
+    return idx;
+  }
+
+  function isStepComplete(step: number | string) {
+    const idx = resolveStepIndex(step);
+
+    return idx !== undefined && completedSteps.value.includes(getSteps()[idx]);
+  }
+
+  function isStepActive(step: number | string) {
+    return resolveStepIndex(step) === currentStep.value;
+  }
+
+  function isStepDirty(step: number | string) {
+    const idx = resolveStepIndex(step);
+
+    return idx !== undefined && (form?.isDirty(getSteps()[idx]) ?? false);
+  }
+
+  function setStepComplete(name: string, isComplete: boolean) {
+    const others = completedSteps.value.filter(s => s !== name);
+    completedSteps.value = isComplete ? [...others, name] : others;
+  }
+
+  async function validateStep(name: string) {
+    const step = registeredSteps.get(name);
+    if (!step) {
+      if (__DEV__) {
+        warn(`The step "${name}" is not mounted and cannot be validated.`);
+      }
+
+      return isStepComplete(name);
+    }
+
+    const isValid = await step.validate();
+    setStepComplete(name, isValid);
+
+    return isValid;
+  }
+
+  /**
+   * Moves to the given step, moving forward requires the current step to be valid and any steps in between to be complete.
+   */
+  async function goTo(step: number | string): Promise<boolean> {
+    const idx = resolveStepIndex(step);
+    if (idx === undefined) {
+      warn(`Cannot go to step "${step}" as it does not exist.`);
+      return false;
+    }
+
+    if (idx <= currentStep.value) {
+      currentStep.value = idx;
+      return true;
+    }
+
+    if (!(await validateStep(getSteps()[currentStep.value]))) {
+      return false;
+    }
+
+    const skipped = getSteps().slice(currentStep.value + 1, idx);
+    if (skipped.some(name => !isStepComplete(name))) {
+      return false;
+    }
+
+    currentStep.value = idx;
+
+    return true;
+  }
+
+  async function next() {
+    if (isLastStep.value) {
+      return false;
+    }
+
+    return goTo(currentStep.value + 1);
+  }
+
+  async function previous() {
+    if (isFirstStep.value) {
+      return false;
+    }
+
+    return goTo(currentStep.value - 1);
+  }
+
+  function registerStep(step: FormWizardStepRegistration) {
+    registeredSteps.set(step.name, step);
+
+    return () => {
+      if (registeredSteps.get(step.name) === step) {
+        registeredSteps.delete(step.name);
+      }
+    };
+  }
+
+  provide(FormWizardKey, {
+    registerStep,
+    isStepActive,
+    isStepComplete,
+  });
+
+  return {
+    /**
+     * The index of the current step.
+     */
+    currentStep: readonly(currentStep),
+    /**
+     * The name of the current step.
+     */
+    currentStepName,
+    /**
+     * Whether the current step is the first step.
+     */
+    isFirstStep,
+    /**
+     * Whether the current step is the last step, the form should be submitted from there.
+     */
+    isLastStep,
+    /**
+     * Validates the current step and moves to the next one if it is valid.
+     */
+    next,
+    /**
+     * Moves to the previous step.
+     */
+    previous,
+    /**
+     * Moves to a given step by index or name.
+     */
+    goTo,
+    /**
+     * Checks if a step was completed, which is true if it was valid when the wizard moved past it.
+     */
+    isStepComplete,
+    /**
+     * Checks if a step is the current step.
+     */
+    isStepActive,
+    /**
+     * Checks if any of a step's values changed from their initial values.
+     */
+    isStepDirty,
+  };
+}
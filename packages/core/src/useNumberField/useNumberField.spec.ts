@@ -118,6 +118,7 @@ describe('validation', () => {
     await render(makeTest({ required: true }));
 
     await fireEvent.invalid(screen.getByLabelText(label));
+    await fireEvent.blur(screen.getByLabelText(label));
     await flush();
     expect(screen.getByLabelText(label)).toHaveErrorMessage('Constraints not satisfied');
 
@@ -134,6 +135,7 @@ describe('validation', () => {
     });
 
     await render(makeTest({ schema }));
+    await fireEvent.blur(screen.getByLabelText(label));
     await flush();
     expect(screen.getByLabelText(label)).toHaveErrorMessage();
     await fireEvent.mouseDown(screen.getByLabelText('Increment'));
@@ -17,6 +17,8 @@ import {
   Numberish,
   Reactivify,
   StandardSchema,
+  Arrayable,
+  ValidationTrigger,
 } from '../types';
 import { useInputValidity } from '../validation/useInputValidity';
 import { useLabel, useErrorMessage } from '../a11y';
@@ -126,6 +128,26 @@ export interface NumberFieldProps {
    */
   schema?: StandardSchema<number>;
 
+  /**
+   * Paths of other fields that should trigger this field's validation when their values change.
+   */
+  dependsOn?: string[];
+
+  /**
+   * The interactions that validate the field before the form is submitted, overrides the form and global settings.
+   */
+  validateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The interactions that validate the field after the form was submitted, defaults to `validateOn`.
+   */
+  revalidateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The number of milliseconds to wait after the last change before running the schema validation.
+   */
+  validationDebounceMs?: number;
+
   /**
    * Whether to disable mouse wheel input.
    */
@@ -148,17 +170,25 @@ export function useNumberField(
   const parser = useNumberParser(() => toValue(props.locale) ?? locale.value, props.formatOptions);
   const field = useFormField<number>({
     path: props.name,
+    label: props.label,
+    kind: 'NumberField',
+    inputId,
     initialValue: toValue(props.modelValue) ?? fromNumberish(props.value),
     disabled: props.disabled,
+    readonly: props.readonly,
     schema: props.schema,
+    dependsOn: props.dependsOn,
+    validationDebounceMs: props.validationDebounceMs,
   });
 
-  const { validityDetails, updateValidity } = useInputValidity({
+  const { validityDetails, triggerValidation } = useInputValidity({
     inputEl,
     field,
     disableHtmlValidation: props.disableHtmlValidation,
+    validateOn: props.validateOn,
+    revalidateOn: props.revalidateOn,
   });
-  const { fieldValue, setValue, setTouched, errorMessage, isDisabled } = field;
+  const { fieldValue, setValue, setTouched, displayError, isDisabled, isReadonly } = field;
   const formattedText = computed<string>(() => {
     if (Number.isNaN(fieldValue.value) || isEmpty(fieldValue.value)) {
       return '';
@@ -180,7 +210,7 @@ export function useNumberField(
 
   const { accessibleErrorProps, errorMessageProps } = useErrorMessage({
     inputId,
-    errorMessage,
+    errorMessage: displayError,
   });
 
   const { incrementButtonProps, decrementButtonProps, increment, decrement, spinButtonProps, applyClamp } =
@@ -190,8 +220,8 @@ export function useNumberField(
       step: props.step,
       min: props.min,
       max: props.max,
-      readonly: props.readonly,
-      disabled: () => isDisabled.value || toValue(props.readonly),
+      readonly: isReadonly,
+      disabled: () => isDisabled.value || isReadonly.value,
       incrementLabel: props.incrementLabel,
       decrementLabel: props.decrementLabel,
       orientation: 'vertical',
@@ -200,7 +230,7 @@ export function useNumberField(
       onChange: value => {
         setValue(value);
         setTouched(true);
-        updateValidity();
+        triggerValidation('input', 'change');
       },
     });
 
@@ -254,7 +284,7 @@ export function useNumberField(
   const inputProps = computed<NumberInputDOMProps>(() => {
     return withRefCapture(
       {
-        ...propsToValues(props, ['name', 'placeholder', 'required', 'readonly']),
+        ...propsToValues(props, ['name', 'placeholder', 'required']),
         ...labelledByProps.value,
         ...describedByProps.value,
         ...accessibleErrorProps.value,
@@ -264,6 +294,7 @@ export function useNumberField(
         inputmode: inputMode.value,
         value: formattedText.value,
         disabled: isDisabled.value ? true : undefined,
+        readonly: isReadonly.value || undefined,
         max: toValue(props.max),
         min: toValue(props.min),
         type: 'text',
@@ -285,7 +316,7 @@ export function useNumberField(
 
       decrement();
     },
-    { disabled: () => isDisabled.value || toValue(props.disableWheel), passive: true },
+    { disabled: () => isDisabled.value || isReadonly.value || toValue(props.disableWheel), passive: true },
   );
 
   return exposeField(
@@ -5,6 +5,7 @@ import { fireEvent, render, screen } from '@testing-library/vue';
 import { axe } from 'vitest-axe';
 import { describe } from 'vitest';
 import { flush, defineStandardSchema } from '@test-utils/index';
+import { useForm } from '../useForm';
 
 const createGroup = (props: RadioGroupProps): Component => {
   return defineComponent({
@@ -414,9 +415,61 @@ describe('Arrow keys behavior', () => {
     await fireEvent.keyDown(screen.getByLabelText('Group'), { code: 'ArrowDown' });
     expect(screen.getByTestId('value')).toHaveTextContent('');
   });
+
+  test('does not affect groups within a readonly form', async () => {
+    const RadioGroup = createGroup({ label: 'Group' });
+    const RadioInput = createRadio();
+
+    await render({
+      components: { RadioGroup, RadioInput },
+      setup() {
+        useForm({ readonly: true });
+
+        return {};
+      },
+      template: `
+        <RadioGroup data-testid="fixture">
+          <RadioInput label="First" value="1" />
+          <RadioInput label="Second" value="2" />
+        </RadioGroup>
+      `,
+    });
+
+    await fireEvent.keyDown(screen.getByLabelText('Group'), { code: 'ArrowDown' });
+    await fireEvent.click(screen.getByLabelText('Second'));
+    expect(screen.getByTestId('value')).toHaveTextContent('');
+    expect(screen.getByLabelText('First')).toHaveAttribute('readonly');
+  });
 });
 
 describe('validation', () => {
+  test('focuses the first radio when the form is submitted with errors', async () => {
+    const schema = defineStandardSchema<any, any>(() => ({ issues: [{ message: 'Required', path: ['choice'] }] }));
+    const RadioGroup = createGroup({ label: 'Group', name: 'choice', schema });
+    const RadioInput = createRadio();
+
+    await render({
+      components: { RadioGroup, RadioInput },
+      setup() {
+        const { handleSubmit } = useForm({ focusInvalidFieldOnSubmit: true });
+
+        return { onSubmit: handleSubmit(() => {}) };
+      },
+      template: `
+        <RadioGroup>
+          <RadioInput label="First" value="1" />
+          <RadioInput label="Second" value="2" />
+        </RadioGroup>
+        <button @click="onSubmit">Submit</button>
+      `,
+    });
+
+    await flush();
+    await fireEvent.click(screen.getByText('Submit'));
+    await flush();
+    expect(screen.getByLabelText('First')).toHaveFocus();
+  });
+
   test('picks up native error messages', async () => {
     const RadioGroup = createGroup({ label: 'Group', required: true });
     const RadioInput = createRadio();
@@ -433,6 +486,7 @@ describe('validation', () => {
     });
 
     await fireEvent.invalid(screen.getByLabelText('First'));
+    await fireEvent.blur(screen.getByLabelText('First'));
     await flush();
     expect(screen.getByLabelText('Group')).toHaveErrorMessage('Constraints not satisfied');
 
@@ -9,6 +9,8 @@ import {
   Direction,
   Reactivify,
   StandardSchema,
+  Arrayable,
+  ValidationTrigger,
 } from '../types';
 import {
   useUniqId,
@@ -97,6 +99,21 @@ export interface RadioGroupProps<TValue = string> {
    */
   schema?: StandardSchema<TValue>;
 
+  /**
+   * Paths of other fields that should trigger this field's validation when their values change.
+   */
+  dependsOn?: string[];
+
+  /**
+   * The interactions that validate the field before the form is submitted, overrides the form and global settings.
+   */
+  validateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The interactions that validate the field after the form was submitted, defaults to `validateOn`.
+   */
+  revalidateOn?: Arrayable<ValidationTrigger>;
+
   /**
    * Whether to disable HTML5 form validation.
    */
@@ -138,9 +155,18 @@ export function useRadioGroup<TValue = string>(_props: Reactivify<RadioGroupProp
 
   const field = useFormField<TValue>({
     path: props.name,
+    label: props.label,
+    kind: 'RadioButtonGroup',
+    inputId: groupId,
+    focus: opts => {
+      const radio = radios.value.find(r => r.isChecked()) ?? radios.value.find(r => !r.isDisabled());
+      radio?.getElem()?.focus(opts);
+    },
     initialValue: toValue(props.modelValue) as TValue,
     disabled: props.disabled,
+    readonly: props.readonly,
     schema: props.schema,
+    dependsOn: props.dependsOn,
   });
 
   const { validityDetails } = useInputValidity({
@@ -149,9 +175,11 @@ export function useRadioGroup<TValue = string>(_props: Reactivify<RadioGroupProp
     groupValidityBehavior: 'some',
     inputEl: computed(() => radios.value.map(r => r.getElem())),
     disableHtmlValidation: props.disableHtmlValidation,
+    validateOn: props.validateOn,
+    revalidateOn: props.revalidateOn,
   });
 
-  const { fieldValue, setValue, setTouched, errorMessage, isDisabled } = field;
+  const { fieldValue, setValue, setTouched, displayError, isDisabled } = field;
 
   const { descriptionProps, describedByProps } = createDescribedByProps({
     inputId: groupId,
@@ -160,7 +188,7 @@ export function useRadioGroup<TValue = string>(_props: Reactivify<RadioGroupProp
 
   const { accessibleErrorProps, errorMessageProps } = useErrorMessage({
     inputId: groupId,
-    errorMessage,
+    errorMessage: displayError,
   });
 
   function handleArrowNext() {
@@ -249,7 +277,7 @@ export function useRadioGroup<TValue = string>(_props: Reactivify<RadioGroupProp
   }
 
   function setGroupValue(value: TValue) {
-    if (isDisabled.value || toValue(props.readonly)) {
+    if (isDisabled.value || field.isReadonly.value) {
       return;
     }
 
@@ -258,7 +286,7 @@ export function useRadioGroup<TValue = string>(_props: Reactivify<RadioGroupProp
 
   const context: RadioGroupContext<TValue> = reactive({
     name: computed(() => toValue(props.name) ?? groupId),
-    readonly: computed(() => toValue(props.readonly) ?? false),
+    readonly: field.isReadonly,
     required: computed(() => toValue(props.required) ?? false),
     modelValue: fieldValue,
     setGroupValue,
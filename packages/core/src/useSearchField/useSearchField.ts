@@ -8,6 +8,8 @@ import {
   Reactivify,
   TextInputBaseAttributes,
   StandardSchema,
+  Arrayable,
+  ValidationTrigger,
 } from '../types';
 import {
   createDescribedByProps,
@@ -107,6 +109,26 @@ export interface SearchFieldProps {
    */
   schema?: StandardSchema<string>;
 
+  /**
+   * Paths of other fields that should trigger this field's validation when their values change.
+   */
+  dependsOn?: string[];
+
+  /**
+   * The interactions that validate the field before the form is submitted, overrides the form and global settings.
+   */
+  validateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The interactions that validate the field after the form was submitted, defaults to `validateOn`.
+   */
+  revalidateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The number of milliseconds to wait after the last change before running the schema validation.
+   */
+  validationDebounceMs?: number;
+
   /**
    * Handler called when the search field is submitted via the Enter key.
    */
@@ -128,19 +150,27 @@ export function useSearchField(
   const isDisabled = createDisabledContext(props.disabled);
   const field = useFormField<string | undefined>({
     path: props.name,
+    label: props.label,
+    kind: 'SearchField',
+    inputId,
     initialValue: toValue(props.modelValue) ?? toValue(props.value),
     disabled: isDisabled,
+    readonly: props.readonly,
     schema: props.schema,
+    dependsOn: props.dependsOn,
+    validationDebounceMs: props.validationDebounceMs,
   });
 
-  const isMutable = () => !toValue(props.readonly) && !isDisabled.value;
+  const isMutable = () => !field.isReadonly.value && !isDisabled.value;
 
-  const { validityDetails, updateValidity } = useInputValidity({
+  const { validityDetails, triggerValidation } = useInputValidity({
     inputEl,
     field,
     disableHtmlValidation: props.disableHtmlValidation,
+    validateOn: props.validateOn,
+    revalidateOn: props.revalidateOn,
   });
-  const { fieldValue, setValue, setTouched, errorMessage, isValid } = field;
+  const { fieldValue, setValue, setTouched, displayError, isValid } = field;
 
   const { labelProps, labelledByProps } = useLabel({
     for: inputId,
@@ -155,7 +185,7 @@ export function useSearchField(
 
   const { accessibleErrorProps, errorMessageProps } = useErrorMessage({
     inputId,
-    errorMessage,
+    errorMessage: displayError,
   });
 
   const clearBtnProps = computed(() => {
@@ -169,7 +199,7 @@ export function useSearchField(
         }
 
         setValue('');
-        updateValidity();
+        triggerValidation('input', 'change');
       },
     };
   });
@@ -193,7 +223,7 @@ export function useSearchField(
 
         setValue('');
         setTouched(true);
-        updateValidity();
+        triggerValidation('input', 'change');
         return;
       }
 
@@ -210,13 +240,14 @@ export function useSearchField(
   const inputProps = computed<SearchInputDOMProps>(() =>
     withRefCapture(
       {
-        ...propsToValues(props, ['name', 'pattern', 'placeholder', 'required', 'readonly']),
+        ...propsToValues(props, ['name', 'pattern', 'placeholder', 'required']),
         ...labelledByProps.value,
         ...describedByProps.value,
         ...accessibleErrorProps.value,
         id: inputId,
         value: fieldValue.value,
         disabled: isDisabled.value ? true : undefined,
+        readonly: field.isReadonly.value || undefined,
         type: 'search',
         maxlength: toValue(props.maxLength),
         minlength: toValue(props.minLength),
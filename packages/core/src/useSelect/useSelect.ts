@@ -1,6 +1,6 @@
 import { computed, ref, toValue } from 'vue';
 import { useFormField, exposeField } from '../useFormField';
-import { AriaLabelableProps, Arrayable, Orientation, Reactivify, StandardSchema } from '../types';
+import { AriaLabelableProps, Arrayable, Orientation, Reactivify, StandardSchema, ValidationTrigger } from '../types';
 import {
   createDescribedByProps,
   isEqual,
@@ -70,6 +70,21 @@ export interface SelectProps<TOption, TValue = TOption> {
    * Schema for validating the select field value.
    */
   schema?: StandardSchema<Arrayable<TValue>>;
+
+  /**
+   * Paths of other fields that should trigger this field's validation when their values change.
+   */
+  dependsOn?: string[];
+
+  /**
+   * The interactions that validate the field before the form is submitted, overrides the form and global settings.
+   */
+  validateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The interactions that validate the field after the form was submitted, defaults to `validateOn`.
+   */
+  revalidateOn?: Arrayable<ValidationTrigger>;
 }
 
 export interface SelectTriggerDomProps extends AriaLabelableProps {
@@ -77,6 +92,7 @@ export interface SelectTriggerDomProps extends AriaLabelableProps {
   role: 'combobox';
   'aria-haspopup': 'listbox';
   'aria-disabled'?: boolean;
+  'aria-readonly'?: boolean;
   'aria-expanded': boolean;
   'aria-activedescendant'?: string;
 }
@@ -88,13 +104,19 @@ export function useSelect<TOption, TValue = TOption>(_props: Reactivify<SelectPr
   const props = normalizeProps(_props, ['schema']);
   const field = useFormField<Arrayable<TValue>>({
     path: props.name,
+    label: props.label,
+    kind: 'Select',
+    inputId,
+    focus: opts => triggerEl.value?.focus(opts),
     initialValue: (toValue(props.modelValue) ?? toValue(props.value)) as Arrayable<TValue>,
     disabled: props.disabled,
+    readonly: props.readonly,
     schema: props.schema,
+    dependsOn: props.dependsOn,
   });
 
-  const { fieldValue, setValue, errorMessage, isDisabled } = field;
-  const isMutable = () => !isDisabled.value && !toValue(props.readonly);
+  const { fieldValue, setValue, displayError, isDisabled, isReadonly } = field;
+  const isMutable = () => !isDisabled.value && !isReadonly.value;
   const { labelProps, labelledByProps } = useLabel({
     label: props.label,
     for: inputId,
@@ -125,14 +147,18 @@ export function useSelect<TOption, TValue = TOption>(_props: Reactivify<SelectPr
     onToggleAfter: toggleAfter,
   });
 
-  const { updateValidity } = useInputValidity({ field });
+  const { triggerValidation } = useInputValidity({
+    field,
+    validateOn: props.validateOn,
+    revalidateOn: props.revalidateOn,
+  });
   const { descriptionProps, describedByProps } = createDescribedByProps({
     inputId,
     description: props.description,
   });
   const { accessibleErrorProps, errorMessageProps } = useErrorMessage({
     inputId,
-    errorMessage,
+    errorMessage: displayError,
   });
 
   function isSingle() {
@@ -155,7 +181,7 @@ export function useSelect<TOption, TValue = TOption>(_props: Reactivify<SelectPr
     if (isSingle()) {
       lastRecentlySelectedOption = optionValue;
       setValue(optionValue);
-      updateValidity();
+      triggerValidation('input', 'change');
       isPopupOpen.value = false;
       return;
     }
@@ -164,7 +190,7 @@ export function useSelect<TOption, TValue = TOption>(_props: Reactivify<SelectPr
       lastRecentlySelectedOption = optionValue;
       const nextValue = toggleValueSelection<TValue>(fieldValue.value ?? [], optionValue, force);
       setValue(nextValue);
-      updateValidity();
+      triggerValidation('input', 'change');
       return;
     }
 
@@ -184,7 +210,7 @@ export function useSelect<TOption, TValue = TOption>(_props: Reactivify<SelectPr
   function selectRange(start: number, end: number) {
     const nextValue = renderedOptions.value.slice(start, end + 1).map(opt => opt.getValue());
     setValue(nextValue);
-    updateValidity();
+    triggerValidation('input', 'change');
   }
 
   function toggleBefore() {
@@ -221,12 +247,12 @@ export function useSelect<TOption, TValue = TOption>(_props: Reactivify<SelectPr
     const isAllSelected = renderedOptions.value.every(opt => opt.isSelected());
     if (isAllSelected) {
       setValue([]);
-      updateValidity();
+      triggerValidation('input', 'change');
       return;
     }
 
     setValue(renderedOptions.value.map(opt => opt.getValue()));
-    updateValidity();
+    triggerValidation('input', 'change');
   }
 
   const handlers = {
@@ -248,6 +274,14 @@ export function useSelect<TOption, TValue = TOption>(_props: Reactivify<SelectPr
         return;
       }
     },
+    onBlur(e: FocusEvent) {
+      // Moving the focus into the popup does not leave the field.
+      if (listBoxEl.value?.contains(e.relatedTarget as Node)) {
+        return;
+      }
+
+      triggerValidation('blur');
+    },
   };
 
   const triggerEl = ref<HTMLElement>();
@@ -265,6 +299,7 @@ export function useSelect<TOption, TValue = TOption>(_props: Reactivify<SelectPr
         'aria-haspopup': 'listbox',
         'aria-expanded': isPopupOpen.value,
         'aria-disabled': isDisabled.value || undefined,
+        'aria-readonly': isReadonly.value || undefined,
         'aria-activedescendant': findFocusedOption()?.id ?? undefined,
         'aria-controls': listBoxId,
         ...handlers,
@@ -5,6 +5,8 @@ import { fireEvent, render, screen } from '@testing-library/vue';
 import { flush } from '@test-utils/flush';
 import { axe } from 'vitest-axe';
 import { describe } from 'vitest';
+import { useForm } from '../useForm';
+import { defineStandardSchema } from '@test-utils/index';
 
 function createThumbComponent(props: SliderThumbProps): Component {
   return {
@@ -176,6 +178,31 @@ describe('thumb behavior with mouse', () => {
     expect(screen.getByRole('slider')).toHaveAttribute('aria-valuenow', '0');
   });
 
+  test('does not respond if slider is within a readonly form', async () => {
+    const Slider = createSliderComponent({ label: 'Slider', modelValue: 20 });
+
+    await render({
+      components: { Thumb, Slider },
+      setup() {
+        useForm({ readonly: true });
+
+        return {};
+      },
+      template: `
+        <Slider>
+          <Thumb />
+        </Slider>
+    `,
+    });
+
+    await fireEvent.keyDown(screen.getByRole('slider'), { code: 'ArrowRight' });
+    await fireEvent.mouseDown(screen.getByTestId('track'), { clientX: 50, clientY: 0 });
+
+    expect(screen.getByRole('slider')).toHaveAttribute('aria-valuenow', '20');
+    expect(screen.getByRole('slider')).toHaveAttribute('aria-readonly', 'true');
+    expect(screen.getByRole('slider')).toHaveAttribute('tabindex', '0');
+  });
+
   test('does not respond if slider is disabled', async () => {
     const DisabledSlider = createSliderComponent({
       label: 'Slider',
@@ -200,6 +227,34 @@ describe('thumb behavior with mouse', () => {
   });
 });
 
+describe('form submission', () => {
+  test('focuses the first thumb when the form is submitted with errors', async () => {
+    const schema = defineStandardSchema<any, any>(() => ({ issues: [{ message: 'Required', path: ['volume'] }] }));
+    const Thumb = createThumbComponent({});
+    const Slider = createSliderComponent({ label: 'Slider', name: 'volume', schema });
+
+    await render({
+      components: { Thumb, Slider },
+      setup() {
+        const { handleSubmit } = useForm({ focusInvalidFieldOnSubmit: true });
+
+        return { onSubmit: handleSubmit(() => {}) };
+      },
+      template: `
+        <Slider>
+          <Thumb />
+        </Slider>
+        <button @click="onSubmit">Submit</button>
+      `,
+    });
+
+    await flush();
+    await fireEvent.click(screen.getByText('Submit'));
+    await flush();
+    expect(screen.getByRole('slider')).toHaveFocus();
+  });
+});
+
 describe('thumb behavior with touch', () => {
   const Thumb = createThumbComponent({});
   const Slider = createSliderComponent({
@@ -9,7 +9,16 @@ import {
   toValue,
 } from 'vue';
 import { useLabel, useErrorMessage, type ErrorableAttributes } from '../a11y';
-import { AriaLabelableProps, Arrayable, Direction, Numberish, Orientation, Reactivify, StandardSchema } from '../types';
+import {
+  AriaLabelableProps,
+  Arrayable,
+  Direction,
+  Numberish,
+  Orientation,
+  Reactivify,
+  StandardSchema,
+  ValidationTrigger,
+} from '../types';
 import {
   fromNumberish,
   isEqual,
@@ -92,13 +101,28 @@ export interface SliderProps<TValue = number> {
    * Schema for slider validation.
    */
   schema?: StandardSchema<TValue>;
+
+  /**
+   * Paths of other fields that should trigger this field's validation when their values change.
+   */
+  dependsOn?: string[];
+
+  /**
+   * The interactions that validate the field before the form is submitted, overrides the form and global settings.
+   */
+  validateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The interactions that validate the field after the form was submitted, defaults to `validateOn`.
+   */
+  revalidateOn?: Arrayable<ValidationTrigger>;
 }
 
 export type Coordinate = { x: number; y: number };
 
 export interface ThumbRegistration {
   id: string;
-  focus(): void;
+  focus(opts?: FocusOptions): void;
 }
 
 export interface ValueRange {
@@ -192,6 +216,16 @@ export interface SliderRegistration<TValue = number> {
 
   setTouched(value: boolean): void;
 
+  /**
+   * Notifies the slider that the thumb lost focus.
+   */
+  onBlur(): void;
+
+  /**
+   * Whether the slider is readonly.
+   */
+  isReadonly(): boolean;
+
   getAccessibleErrorProps(): ErrorableAttributes;
 }
 
@@ -209,19 +243,28 @@ export function useSlider<TValue>(_props: Reactivify<SliderProps<TValue>, 'schem
   const { direction } = useLocale();
   const field = useFormField<Arrayable<TValue | undefined>>({
     path: props.name,
+    label: props.label,
+    kind: 'Slider',
+    inputId,
+    focus: opts => thumbs.value[0]?.focus(opts),
     initialValue: (toValue(props.modelValue) ?? toValue(props.value)) as TValue,
     disabled: props.disabled,
+    readonly: props.readonly,
     schema: props.schema,
+    dependsOn: props.dependsOn,
   });
 
   if (__DEV__) {
     checkValidProps(_props);
   }
 
-  const { fieldValue, setValue, setTouched, isDisabled } = field;
-  const isReadonly = () => toValue(props.readonly) ?? false;
-  const isMutable = () => !isDisabled.value && !isReadonly();
-  const { updateValidity } = useInputValidity({ field });
+  const { fieldValue, setValue, setTouched, isDisabled, isReadonly } = field;
+  const isMutable = () => !isDisabled.value && !isReadonly.value;
+  const { triggerValidation } = useInputValidity({
+    field,
+    validateOn: props.validateOn,
+    revalidateOn: props.revalidateOn,
+  });
   const { labelProps, labelledByProps } = useLabel({
     for: inputId,
     label: props.label,
@@ -231,7 +274,7 @@ export function useSlider<TValue>(_props: Reactivify<SliderProps<TValue>, 'schem
 
   const { errorMessageProps, accessibleErrorProps } = useErrorMessage({
     inputId,
-    errorMessage: field.errorMessage,
+    errorMessage: field.displayError,
   });
 
   const groupProps = computed(() => ({
@@ -297,14 +340,14 @@ export function useSlider<TValue>(_props: Reactivify<SliderProps<TValue>, 'schem
 
     if (thumbs.value.length <= 1) {
       setValue(mapNumberToStop(value));
-      updateValidity();
+      triggerValidation('input', 'change');
       return;
     }
 
     const nextValue = normalizeArrayable(fieldValue.value).filter(v => !isNullOrUndefined(v));
     nextValue[idx] = mapNumberToStop(value);
     setValue(nextValue);
-    updateValidity();
+    triggerValidation('input', 'change');
   }
 
   const trackProps = computed(() => {
@@ -433,6 +476,8 @@ export function useSlider<TValue>(_props: Reactivify<SliderProps<TValue>, 'schem
         setThumbValue(getThumbIndex(), value);
       },
       setTouched,
+      onBlur: () => triggerValidation('blur'),
+      isReadonly: () => isReadonly.value,
       getAccessibleErrorProps: () => accessibleErrorProps.value,
     };
 
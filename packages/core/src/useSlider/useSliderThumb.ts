@@ -42,8 +42,8 @@ export function useSliderThumb<TValue = number>(
 
   const thumbContext: ThumbRegistration = {
     id,
-    focus() {
-      thumbEl.value?.focus();
+    focus(opts) {
+      thumbEl.value?.focus(opts);
     },
   };
 
@@ -61,7 +61,9 @@ export function useSliderThumb<TValue = number>(
       getThumbValue: () => 0,
       setThumbValue: NOOP,
       setTouched: NOOP,
+      onBlur: NOOP,
       isDisabled: () => false,
+      isReadonly: () => false,
       getAccessibleErrorProps: () => ({
         'aria-invalid': false,
         'aria-errormessage': undefined,
@@ -89,6 +91,7 @@ export function useSliderThumb<TValue = number>(
   const { spinButtonProps, applyClamp } = useSpinButton({
     current: thumbValue,
     disabled: isDisabled,
+    readonly: () => slider.isReadonly(),
     orientation: 'both',
     currentText: textValue,
     min: () => slider.getThumbRange().min,
@@ -114,11 +117,13 @@ export function useSliderThumb<TValue = number>(
         role: 'slider',
         ...slider.getAccessibleErrorProps(),
         'aria-orientation': slider.getOrientation(),
+        'aria-readonly': slider.isReadonly() || undefined,
         'aria-label': ownLabel ?? undefined,
         ...(ownLabel ? {} : slider.getSliderLabelProps()),
         ...spinButtonProps.value,
         onMousedown: onPointerdown,
         onTouchstart: onPointerdown,
+        onBlur: slider.onBlur,
         style: getPositionStyle(),
       },
       thumbEl,
@@ -81,8 +81,10 @@ export function useSpinButton(_props: Reactivify<SpinButtonProps, 'onChange'>) {
     return Math.max(Math.floor(Math.abs((max - min) / min)), getStep());
   };
 
+  const isMutable = () => !toValue(props.disabled) && !toValue(props.readonly);
+
   function onKeydown(e: KeyboardEvent) {
-    if (e.ctrlKey || e.metaKey || e.shiftKey || e.altKey || toValue(props.disabled) || toValue(props.readonly)) {
+    if (e.ctrlKey || e.metaKey || e.shiftKey || e.altKey || !isMutable()) {
       return;
     }
 
@@ -145,6 +147,10 @@ export function useSpinButton(_props: Reactivify<SpinButtonProps, 'onChange'>) {
   }
 
   function tryChange(diff: number) {
+    if (!isMutable()) {
+      return;
+    }
+
     const current = toValue(props.current) || 0;
     const step = getStep();
     const next = applyClamp(toNearestMultipleOf(current + diff, step));
@@ -170,14 +176,14 @@ export function useSpinButton(_props: Reactivify<SpinButtonProps, 'onChange'>) {
 
   function incrementToMax() {
     const max = getMax();
-    if (!isNullOrUndefined(max)) {
+    if (!isNullOrUndefined(max) && isMutable()) {
       props.onChange?.(max);
     }
   }
 
   function decrementToMin() {
     const min = getMin();
-    if (!isNullOrUndefined(min)) {
+    if (!isNullOrUndefined(min) && isMutable()) {
       props.onChange?.(min);
     }
   }
@@ -91,6 +91,9 @@ describe('with input as base element', () => {
     const label = 'Subscribe to our newsletter';
     await renderSwitch({ required: true });
 
+    // Toggling the switch on and off touches it without satisfying the constraint.
+    await fireEvent.click(screen.getByLabelText(label));
+    await fireEvent.click(screen.getByLabelText(label));
     await fireEvent.invalid(screen.getByLabelText(label));
     await flush();
     expect(screen.getByLabelText(label)).toHaveErrorMessage('Constraints not satisfied');
@@ -8,6 +8,8 @@ import {
   InputEvents,
   Reactivify,
   StandardSchema,
+  Arrayable,
+  ValidationTrigger,
 } from '../types';
 import { hasKeyCode, isEqual, isInputElement, normalizeProps, useUniqId, withRefCapture } from '../utils/common';
 import { useLabel, useErrorMessage } from '../a11y';
@@ -80,6 +82,21 @@ export type SwitchProps<TValue = boolean> = {
    */
   schema?: StandardSchema<unknown>;
 
+  /**
+   * Paths of other fields that should trigger this field's validation when their values change.
+   */
+  dependsOn?: string[];
+
+  /**
+   * The interactions that validate the field before the form is submitted, overrides the form and global settings.
+   */
+  validateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The interactions that validate the field after the form was submitted, defaults to `validateOn`.
+   */
+  revalidateOn?: Arrayable<ValidationTrigger>;
+
   /**
    * Whether to disable HTML5 validation.
    */
@@ -101,22 +118,29 @@ export function useSwitch<TValue = boolean>(
 
   const field = useFormField<unknown>({
     path: props.name,
+    label: props.label,
+    kind: 'Switch',
+    inputId,
     initialValue: toValue(props.modelValue) ?? toValue(props.falseValue) ?? false,
     disabled: props.disabled,
+    readonly: props.readonly,
     schema: props.schema,
+    dependsOn: props.dependsOn,
   });
 
-  const { updateValidity } = useInputValidity({
+  const { triggerValidation } = useInputValidity({
     field,
     inputEl,
     disableHtmlValidation: props.disableHtmlValidation,
+    validateOn: props.validateOn,
+    revalidateOn: props.revalidateOn,
   });
 
-  const { fieldValue, setValue, setTouched, errorMessage, isDisabled } = field;
-  const isMutable = () => !toValue(props.readonly) && !isDisabled.value;
+  const { fieldValue, setValue, setTouched, displayError, isDisabled, isReadonly } = field;
+  const isMutable = () => !isReadonly.value && !isDisabled.value;
   const { errorMessageProps, accessibleErrorProps } = useErrorMessage({
     inputId,
-    errorMessage,
+    errorMessage: displayError,
   });
 
   /**
@@ -163,7 +187,7 @@ export function useSwitch<TValue = boolean>(
         setTouched(true);
 
         if (!isInputElement(inputEl.value)) {
-          updateValidity();
+          triggerValidation('input', 'change');
         }
       }
     },
@@ -185,7 +209,7 @@ export function useSwitch<TValue = boolean>(
 
     togglePressed();
     setTouched(true);
-    updateValidity();
+    triggerValidation('input', 'change');
   }
 
   const isPressed = computed({
@@ -204,7 +228,7 @@ export function useSwitch<TValue = boolean>(
       ...accessibleErrorProps.value,
       [isInput ? 'checked' : 'aria-checked']: isPressed.value || false,
       [isInput ? 'required' : 'aria-required']: toValue(props.required) || undefined,
-      [isInput ? 'readonly' : 'aria-readonly']: toValue(props.readonly) || undefined,
+      [isInput ? 'readonly' : 'aria-readonly']: isReadonly.value || undefined,
       [isInput ? 'disabled' : 'aria-disabled']: isDisabled.value || undefined,
       role: 'switch' as const,
     };
@@ -205,6 +205,7 @@ test('picks up native error messages', async () => {
   });
 
   await fireEvent.invalid(screen.getByLabelText(label));
+  await fireEvent.blur(screen.getByLabelText(label));
   await flush();
   expect(screen.getByLabelText(label)).toHaveErrorMessage('Constraints not satisfied');
 
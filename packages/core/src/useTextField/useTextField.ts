@@ -13,7 +13,7 @@ import { useInputValidity } from '../validation/useInputValidity';
 import { useLabel, useErrorMessage } from '../a11y';
 import { useFormField, exposeField } from '../useFormField';
 import { FieldTypePrefixes } from '../constants';
-import { StandardSchema } from '../types';
+import { StandardSchema, Arrayable, ValidationTrigger } from '../types';
 
 export type TextInputDOMType = 'text' | 'password' | 'email' | 'number' | 'tel' | 'url';
 
@@ -106,6 +106,26 @@ export interface TextFieldProps {
    */
   schema?: StandardSchema<string>;
 
+  /**
+   * Paths of other fields that should trigger this field's validation when their values change.
+   */
+  dependsOn?: string[];
+
+  /**
+   * The interactions that validate the field before the form is submitted, overrides the form and global settings.
+   */
+  validateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The interactions that validate the field after the form was submitted, defaults to `validateOn`.
+   */
+  revalidateOn?: Arrayable<ValidationTrigger>;
+
+  /**
+   * The number of milliseconds to wait after the last change before running the schema validation.
+   */
+  validationDebounceMs?: number;
+
   /**
    * Whether to disable HTML5 validation.
    */
@@ -121,13 +141,25 @@ export function useTextField(
   const inputEl = elementRef || shallowRef<HTMLInputElement>();
   const field = useFormField<string | undefined>({
     path: props.name,
+    label: props.label,
+    kind: 'TextField',
+    inputId,
     initialValue: toValue(props.modelValue) ?? toValue(props.value),
     disabled: props.disabled,
+    readonly: props.readonly,
     schema: props.schema,
+    dependsOn: props.dependsOn,
+    validationDebounceMs: props.validationDebounceMs,
   });
 
-  const { validityDetails } = useInputValidity({ inputEl, field, disableHtmlValidation: props.disableHtmlValidation });
-  const { fieldValue, setValue, setTouched, errorMessage, isDisabled } = field;
+  const { validityDetails } = useInputValidity({
+    inputEl,
+    field,
+    disableHtmlValidation: props.disableHtmlValidation,
+    validateOn: props.validateOn,
+    revalidateOn: props.revalidateOn,
+  });
+  const { fieldValue, setValue, setTouched, displayError, isDisabled, isReadonly } = field;
   const { labelProps, labelledByProps } = useLabel({
     for: inputId,
     label: props.label,
@@ -141,7 +173,7 @@ export function useTextField(
 
   const { accessibleErrorProps, errorMessageProps } = useErrorMessage({
     inputId,
-    errorMessage,
+    errorMessage: displayError,
   });
 
   const handlers: InputEvents = {
@@ -159,7 +191,7 @@ export function useTextField(
   const inputProps = computed<TextInputDOMProps>(() => {
     return withRefCapture(
       {
-        ...propsToValues(props, ['name', 'type', 'placeholder', 'autocomplete', 'required', 'readonly']),
+        ...propsToValues(props, ['name', 'type', 'placeholder', 'autocomplete', 'required']),
         ...labelledByProps.value,
         ...describedByProps.value,
         ...accessibleErrorProps.value,
@@ -169,6 +201,7 @@ export function useTextField(
         maxlength: toValue(props.maxLength),
         minlength: toValue(props.minLength),
         disabled: isDisabled.value ? true : undefined,
+        readonly: isReadonly.value || undefined,
         // Maybe we need to find a better way to serialize RegExp to a pattern string
         pattern: inputEl.value?.tagName === 'TEXTAREA' ? undefined : toValue(props.pattern)?.toString(),
       },
@@ -401,19 +401,29 @@ export function fromNumberish(value: MaybeRefOrGetter<Numberish | undefined>): n
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function debounce<TFunction extends (...args: any[]) => any>(ms: number, fn: TFunction) {
-  if (ms <= 0) {
-    return fn;
-  }
-
   let timer: number | null = null;
 
-  return function (...args: Parameters<TFunction>) {
+  function cancel() {
     if (timer) {
       clearTimeout(timer);
+      timer = null;
     }
+  }
 
-    timer = window.setTimeout(() => fn(...args), ms);
-  };
+  function debounced(...args: Parameters<TFunction>) {
+    if (ms <= 0) {
+      fn(...args);
+      return;
+    }
+
+    cancel();
+    timer = window.setTimeout(() => {
+      timer = null;
+      fn(...args);
+    }, ms);
+  }
+
+  return Object.assign(debounced, { cancel });
 }
 
 /**
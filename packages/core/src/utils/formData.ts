@@ -1,44 +1,214 @@
 import { isObject } from '../../../shared/src';
 import { isFile, isFileOrBlob, isNullOrUndefined } from './common';
+import { FormObject } from '../types';
+import { getConfig } from '../config';
 
-export function appendToFormData(jsonObject: Record<string, unknown>, formData: FormData, parentKey = ''): FormData {
-  for (const key in jsonObject) {
-    if (!Object.prototype.hasOwnProperty.call(jsonObject, key)) {
-      continue;
+/**
+ * How nested keys are written.
+ * - `brackets`: `a[b][0]`
+ * - `dots`: `a.b[0]`
+ * - `php-array`: `a[b][]`, arrays of objects keep their indices since their entries must be grouped together.
+ */
+export type FormDataKeyStyle = 'brackets' | 'dots' | 'php-array';
+
+export interface FormDataSerializationOptions {
+  /**
+   * How nested keys are written.
+   */
+  keyStyle: FormDataKeyStyle;
+
+  /**
+   * Whether null and undefined values are sent as empty strings or omitted entirely.
+   */
+  nulls: 'empty' | 'omit';
+
+  /**
+   * How booleans are encoded, `string` sends `true`/`false` and `numeric` sends `1`/`0`.
+   */
+  booleans: 'string' | 'numeric';
+
+  /**
+   * How dates are encoded, either as ISO strings, as millisecond timestamps or with a custom encoder.
+   */
+  dates: 'iso' | 'timestamp' | ((date: Date) => string);
+}
+
+type Append = (key: string, value: string | Blob) => void;
+
+function resolveOptions(opts?: Partial<FormDataSerializationOptions>): FormDataSerializationOptions {
+  return { ...getConfig().formData, ...opts };
+}
+
+function encodeDate(date: Date, encoding: FormDataSerializationOptions['dates']) {
+  if (typeof encoding === 'function') {
+    return encoding(date);
+  }
+
+  return encoding === 'timestamp' ? String(date.getTime()) : date.toISOString();
+}
+
+function childKey(parentKey: string, key: string, style: FormDataKeyStyle) {
+  if (!parentKey) {
+    return key;
+  }
+
+  return style === 'dots' ? `${parentKey}.${key}` : `${parentKey}[${key}]`;
+}
+
+function itemKey(parentKey: string, index: number, item: unknown, style: FormDataKeyStyle) {
+  if (style === 'php-array' && !isObject(item) && !Array.isArray(item)) {
+    return `${parentKey}[]`;
+  }
+
+  return `${parentKey}[${index}]`;
+}
+
+function serialize(value: unknown, key: string, opts: FormDataSerializationOptions, append: Append) {
+  if (isFileOrBlob(value)) {
+    append(key, value);
+    return;
+  }
+
+  if (isNullOrUndefined(value)) {
+    // Nulls are sent as empty strings by default since BE frameworks do convert empty strings to nulls.
+    if (opts.nulls === 'empty') {
+      append(key, '');
+    }
+
+    return;
+  }
+
+  if (value instanceof Date) {
+    append(key, encodeDate(value, opts.dates));
+    return;
+  }
+
+  if (typeof value === 'boolean') {
+    append(key, opts.booleans === 'numeric' ? String(Number(value)) : String(value));
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => {
+      serialize(item, itemKey(key, index, item, opts.keyStyle), opts, append);
+    });
+    return;
+  }
+
+  if (isObject(value)) {
+    for (const prop in value) {
+      if (Object.prototype.hasOwnProperty.call(value, prop)) {
+        serialize(value[prop], childKey(key, prop, opts.keyStyle), opts, append);
+      }
     }
 
-    const value = jsonObject[key];
-    const newKey = parentKey ? `${parentKey}[${key}]` : key;
+    return;
+  }
+
+  append(key, String(value));
+}
 
+export function appendToFormData(
+  jsonObject: Record<string, unknown>,
+  formData: FormData,
+  opts?: Partial<FormDataSerializationOptions>,
+): FormData {
+  serialize(jsonObject, '', resolveOptions(opts), (key, value) => {
     if (isFileOrBlob(value)) {
-      formData.append(newKey, value, isFile(value) ? value.name : undefined);
-      continue;
+      formData.append(key, value, isFile(value) ? value.name : undefined);
+      return;
+    }
+
+    formData.append(key, value);
+  });
+
+  return formData;
+}
+
+export function appendToURLSearchParams(
+  jsonObject: Record<string, unknown>,
+  params: URLSearchParams,
+  opts?: Partial<FormDataSerializationOptions>,
+): URLSearchParams {
+  serialize(jsonObject, '', resolveOptions(opts), (key, value) => {
+    // Files cannot be encoded in a query string.
+    if (typeof value === 'string') {
+      params.append(key, value);
+    }
+  });
+
+  return params;
+}
+
+const UNSAFE_KEY_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+function parseKey(key: string, style: FormDataKeyStyle): string[] {
+  const parse = (part: string) => {
+    const idx = part.indexOf('[');
+    if (idx === -1) {
+      return [part];
     }
 
-    if (isNullOrUndefined(value)) {
-      // Treat nulls as empty strings
-      // There might be people who prefer to omit the key entirely, but this is a safer approach
-      // Since BE frameworks do convert empty strings to nulls
-      formData.append(newKey, '');
-      continue;
+    return [part.slice(0, idx), ...Array.from(part.slice(idx).matchAll(/\[([^\]]*)\]/g), m => m[1])];
+  };
+
+  return style === 'dots' ? key.split('.').flatMap(parse) : parse(key);
+}
+
+/**
+ * Parses a FormData or URLSearchParams object back into a plain object, values are kept as strings and files.
+ * @example
+ * ```ts
+ * const form = useForm({
+ *   initialValues: fromFormData(new FormData(document.querySelector('form'))),
+ * });
+ * ```
+ */
+export function fromFormData<TForm extends FormObject = FormObject>(
+  data: FormData | URLSearchParams,
+  style: FormDataKeyStyle = getConfig().formData.keyStyle,
+): TForm {
+  const result: FormObject = {};
+  data.forEach((value, key) => {
+    const segments = parseKey(key, style);
+    // Keys are often user controlled, like query strings, so they must not reach the object prototypes.
+    if (segments.some(segment => UNSAFE_KEY_SEGMENTS.includes(segment))) {
+      return;
     }
 
-    if (Array.isArray(value)) {
-      value.forEach((item, index) => {
-        appendToFormData({ [`${newKey}[${index}]`]: item }, formData);
-      });
-      continue;
+    let container: FormObject = result;
+    for (let i = 0; i < segments.length - 1; i++) {
+      const segment = segments[i] || String(Object.keys(container).length);
+      if (!hasOwn(container, segment) || isNullOrUndefined(container[segment])) {
+        const next = segments[i + 1];
+        container[segment] = next === '' || /^\d+$/.test(next) ? [] : {};
+      }
+
+      container = container[segment] as FormObject;
     }
 
-    if (isObject(value) && !(value instanceof File)) {
-      appendToFormData(value, formData, newKey);
-      continue;
+    const last = segments[segments.length - 1];
+    if (Array.isArray(container) && last === '') {
+      container.push(value);
+      return;
     }
 
-    formData.append(newKey, String(value));
-  }
+    // Repeated keys like the ones submitted by checkbox groups are collected in an array.
+    // Inherited members like `toString` are not values collected from the form data.
+    const existing = container[last];
+    if (hasOwn(container, last)) {
+      container[last] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+      return;
+    }
 
-  return formData;
+    container[last] = value;
+  });
+
+  return result as TForm;
+}
+
+function hasOwn(object: object, key: string) {
+  return Object.prototype.hasOwnProperty.call(object, key);
 }
 
 export function clearFormData(formData: FormData): FormData {
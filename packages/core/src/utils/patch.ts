@@ -0,0 +1,206 @@
+import { isPlainObject } from '../../../shared/src';
+import { cloneDeep, isEqual } from './common';
+
+export type JSONPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'remove'; path: string };
+
+/**
+ * Creates a deep partial object of the values that changed between `base` and `current`.
+ * Arrays are compared as a whole, and removed keys are set to `null` similar to JSON merge patches.
+ */
+export function createMergePatch(base: unknown, current: unknown): Record<string, unknown> {
+  const patch: Record<string, unknown> = {};
+  if (!isRecord(base) || !isRecord(current)) {
+    return isRecord(current) ? cloneDeep(current) : patch;
+  }
+
+  for (const key of Object.keys(base)) {
+    if (!(key in current)) {
+      patch[key] = null;
+    }
+  }
+
+  for (const [key, value] of Object.entries(current)) {
+    const baseValue = base[key];
+    if (isEqual(baseValue, value)) {
+      continue;
+    }
+
+    patch[key] = isRecord(baseValue) && isRecord(value) ? createMergePatch(baseValue, value) : cloneDeep(value);
+  }
+
+  return patch;
+}
+
+/**
+ * Creates a list of RFC 6902 operations that transform `base` into `current`.
+ */
+export function createJSONPatch(base: unknown, current: unknown, path = ''): JSONPatchOperation[] {
+  if (isEqual(base, current)) {
+    return [];
+  }
+
+  if (Array.isArray(base) && Array.isArray(current)) {
+    return diffArrays(base, current, path);
+  }
+
+  if (isRecord(base) && isRecord(current)) {
+    return diffObjects(base, current, path);
+  }
+
+  return [{ op: 'replace', path, value: cloneDeep(current) }];
+}
+
+/**
+ * Replaces the values of a merge patch with the ones at the same keys in `output`, so a patch of the form input can
+ * carry the schema output without reporting its transforms as changes. Keys missing from `output` are dropped.
+ */
+export function pickMergePatch(patch: Record<string, unknown>, output: unknown): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(patch)) {
+    const outputValue = isRecord(output) ? output[key] : undefined;
+    if (isRecord(value) && isRecord(outputValue)) {
+      picked[key] = pickMergePatch(value, outputValue);
+      continue;
+    }
+
+    if (isRecord(output) && key in output) {
+      picked[key] = cloneDeep(outputValue);
+      continue;
+    }
+
+    if (value === null) {
+      picked[key] = null;
+    }
+  }
+
+  return picked;
+}
+
+/**
+ * Replaces the values of JSON patch operations with the ones at the same pointers in `output`, like `pickMergePatch`.
+ */
+export function pickJSONPatch(ops: JSONPatchOperation[], output: unknown): JSONPatchOperation[] {
+  return ops.flatMap<JSONPatchOperation>(op => {
+    if (op.op === 'remove') {
+      return [op];
+    }
+
+    const [found, value] = resolvePointer(output, op.path);
+
+    return found ? [{ ...op, value: cloneDeep(value) }] : [];
+  });
+}
+
+function resolvePointer(value: unknown, pointer: string): [boolean, unknown] {
+  const keys = pointer
+    .split('/')
+    .slice(1)
+    .map(key => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  let current = value;
+  for (const key of keys) {
+    if ((!isRecord(current) && !Array.isArray(current)) || !(key in current)) {
+      return [false, undefined];
+    }
+
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  return [true, current];
+}
+
+function diffObjects(base: Record<string, unknown>, current: Record<string, unknown>, path: string) {
+  const ops: JSONPatchOperation[] = [];
+  for (const key of Object.keys(base)) {
+    if (!(key in current)) {
+      ops.push({ op: 'remove', path: toPointer(path, key) });
+    }
+  }
+
+  for (const [key, value] of Object.entries(current)) {
+    if (!(key in base)) {
+      ops.push({ op: 'add', path: toPointer(path, key), value: cloneDeep(value) });
+      continue;
+    }
+
+    ops.push(...createJSONPatch(base[key], value, toPointer(path, key)));
+  }
+
+  return ops;
+}
+
+/**
+ * Items that are kept in both arrays are matched by their longest common subsequence, the items in between are diffed
+ * in place when possible, and the rest are removed or added.
+ */
+function diffArrays(base: unknown[], current: unknown[], path: string) {
+  const ops: JSONPatchOperation[] = [];
+  const anchors = [...findCommonSubsequence(base, current), [base.length, current.length]];
+  // The difference between the index in the patched array and the index in the base array.
+  let offset = 0;
+  let baseIdx = 0;
+  let currentIdx = 0;
+
+  for (const [baseAnchor, currentAnchor] of anchors) {
+    const removed = baseAnchor - baseIdx;
+    const added = currentAnchor - currentIdx;
+    const changed = Math.min(removed, added);
+
+    for (let i = 0; i < changed; i++) {
+      ops.push(...createJSONPatch(base[baseIdx + i], current[currentIdx + i], toPointer(path, baseIdx + i + offset)));
+    }
+
+    for (let i = changed; i < removed; i++) {
+      ops.push({ op: 'remove', path: toPointer(path, baseIdx + changed + offset) });
+    }
+
+    for (let i = changed; i < added; i++) {
+      ops.push({ op: 'add', path: toPointer(path, currentIdx + i), value: cloneDeep(current[currentIdx + i]) });
+    }
+
+    offset += added - removed;
+    baseIdx = baseAnchor + 1;
+    currentIdx = currentAnchor + 1;
+  }
+
+  return ops;
+}
+
+function findCommonSubsequence(base: unknown[], current: unknown[]): [number, number][] {
+  const lengths = Array.from({ length: base.length + 1 }, () => new Array<number>(current.length + 1).fill(0));
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = current.length - 1; j >= 0; j--) {
+      lengths[i][j] = isEqual(base[i], current[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < base.length && j < current.length) {
+    if (isEqual(base[i], current[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return pairs;
+}
+
+function toPointer(path: string, key: string | number) {
+  return `${path}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return isPlainObject(value);
+}
@@ -0,0 +1,37 @@
+import { watch } from 'vue';
+import { FormContext } from '../useForm';
+import { Getter } from '../types';
+
+/**
+ * Runs the given validation whenever the value of any of the dependency paths changes.
+ */
+export function useDependentValidation(
+  form: FormContext | null,
+  getPath: Getter<string | undefined>,
+  getDependencies: Getter<string[]>,
+  validate: () => unknown,
+) {
+  if (!form) {
+    return;
+  }
+
+  watch(
+    () => getDependencies().map(path => form.getValue(path)),
+    () => {
+      validate();
+    },
+    { deep: true },
+  );
+
+  if (__DEV__) {
+    watch(
+      () => [getPath(), getDependencies()] as const,
+      ([path, dependencies], _, onCleanup) => {
+        if (path) {
+          onCleanup(form.registerValidationDependencies(path, dependencies));
+        }
+      },
+      { immediate: true },
+    );
+  }
+}
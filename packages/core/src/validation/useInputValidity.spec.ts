@@ -1,7 +1,9 @@
-import { nextTick, ref } from 'vue';
+import { defineComponent, nextTick, ref } from 'vue';
 import { useInputValidity } from './useInputValidity';
 import { fireEvent, render, screen } from '@testing-library/vue';
 import { FormField, useFormField } from '../useFormField';
+import { useForm } from '../useForm';
+import { defineStandardSchema, flush } from '@test-utils/index';
 
 test('updates the validity state on blur events', async () => {
   const input = ref<HTMLInputElement>();
@@ -97,3 +99,99 @@ test('updates the input native validity with custom validity errors', async () =
   expect(screen.getByTestId('err').textContent).toBe('Custom error');
   expect(input.value?.validationMessage).toBe('Custom error');
 });
+
+test('validates on the configured triggers', async () => {
+  const input = ref<HTMLInputElement>();
+
+  await render({
+    setup: () => {
+      const field = useFormField();
+      useInputValidity({ inputEl: input, field, validateOn: 'input' });
+
+      return { input, errorMessage: field.errorMessage };
+    },
+    template: `
+      <form>
+        <input ref="input" data-testid="input" required />
+        <span data-testid="err">{{ errorMessage }}</span>
+      </form>
+    `,
+  });
+
+  await flush();
+  expect(screen.getByTestId('err').textContent).toBe('Constraints not satisfied');
+  await fireEvent.input(screen.getByTestId('input'), { target: { value: 'test' } });
+  await flush();
+  expect(screen.getByTestId('err').textContent).toBe('');
+  await fireEvent.change(screen.getByTestId('input'), { target: { value: '' } });
+  await fireEvent.blur(screen.getByTestId('input'));
+  await flush();
+  expect(screen.getByTestId('err').textContent).toBe('');
+});
+
+test('uses the revalidation triggers after the form was submitted', async () => {
+  let form!: ReturnType<typeof useForm>;
+  const input = ref<HTMLInputElement>();
+  const Child = defineComponent({
+    setup: () => {
+      const field = useFormField({ path: 'name' });
+      useInputValidity({ inputEl: input, field });
+
+      return { input, errorMessage: field.errorMessage };
+    },
+    template: `
+      <input ref="input" data-testid="input" required />
+      <span data-testid="err">{{ errorMessage }}</span>
+    `,
+  });
+
+  await render({
+    components: { Child },
+    setup: () => {
+      form = useForm({ validateOn: 'submit', revalidateOn: 'input' });
+
+      return {};
+    },
+    template: `<Child />`,
+  });
+
+  await flush();
+  await fireEvent.blur(screen.getByTestId('input'));
+  await flush();
+  expect(screen.getByTestId('err').textContent).toBe('');
+
+  await form.handleSubmit(vi.fn())();
+  await flush();
+  expect(screen.getByTestId('err').textContent).toBe('Constraints not satisfied');
+
+  await fireEvent.input(screen.getByTestId('input'), { target: { value: 'test' } });
+  await flush();
+  expect(screen.getByTestId('err').textContent).toBe('');
+});
+
+test('warns instead of rejecting when the field schema throws', async () => {
+  const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  const input = ref<HTMLInputElement>();
+  const schema = defineStandardSchema<any>(() => {
+    throw new Error('Schema error');
+  });
+
+  let field!: FormField<any>;
+  await render({
+    setup: () => {
+      field = useFormField({ path: 'field', schema });
+      useInputValidity({ inputEl: input, field });
+
+      return { input };
+    },
+    template: `<input ref="input" data-testid="input" />`,
+  });
+
+  await flush();
+  await fireEvent.blur(screen.getByTestId('input'));
+  await flush();
+  expect(warn).toHaveBeenCalledTimes(2);
+  expect(warn.mock.calls[0][0]).toContain('Schema error');
+  expect(field.isValidating.value).toBe(false);
+  warn.mockRestore();
+});
@@ -1,12 +1,14 @@
 import { Ref, inject, nextTick, onMounted, shallowRef, watch, MaybeRefOrGetter, toValue } from 'vue';
 import { EventExpression, useEventListener } from '../helpers/useEventListener';
 import { type FormContext, FormKey } from '../useForm';
-import { Arrayable, Maybe, ValidationResult } from '../types';
+import { Arrayable, Maybe, ValidationResult, ValidationTrigger } from '../types';
 import { FormField } from '../useFormField';
 import { isInputElement, normalizeArrayable, warn } from '../utils/common';
 import { FormGroupContext, FormGroupKey } from '../useFormGroup';
 import { getConfig } from '../config';
 import { checkLocaleMismatch } from '../i18n';
+import { useDependentValidation } from './useDependentValidation';
+import { resolveValidationTriggers } from './validationTriggers';
 
 type ElementReference = Ref<Arrayable<Maybe<HTMLElement>>>;
 
@@ -17,12 +19,14 @@ interface InputValidityOptions {
   field: FormField<any>;
   events?: EventExpression[];
   groupValidityBehavior?: 'some' | 'every';
+  validateOn?: MaybeRefOrGetter<Arrayable<ValidationTrigger> | undefined>;
+  revalidateOn?: MaybeRefOrGetter<Arrayable<ValidationTrigger> | undefined>;
 }
 
 export function useInputValidity(opts: InputValidityOptions) {
   const form = inject(FormKey, null);
   const formGroup = inject(FormGroupKey, null);
-  const { setErrors, errorMessage, schema, validate: validateField, getPath } = opts.field;
+  const { setErrors, errorMessage, schema, validate: validateField, getPath, getDependencies } = opts.field;
   const validityDetails = shallowRef<ValidityState>();
   useMessageCustomValiditySync(errorMessage, opts.inputEl, form, formGroup);
   const isHtmlValidationDisabled = () =>
@@ -89,7 +93,13 @@ export function useInputValidity(opts: InputValidityOptions) {
   async function _updateValidity() {
     let result = validateNative(true);
     if (schema && result.isValid) {
-      result = await validateField(true);
+      try {
+        result = await validateField(true);
+      } catch (err) {
+        // The field already reset its validation state, the event handlers and hooks calling this have no one to report to.
+        warn(`The validation of "${getPath() ?? ''}" failed: ${err}`);
+        return;
+      }
     }
 
     if (!result.isValid) {
@@ -104,7 +114,26 @@ export function useInputValidity(opts: InputValidityOptions) {
     _updateValidity();
   }
 
-  useEventListener(opts.inputEl, opts?.events || ['change', 'blur'], updateValidity);
+  function getValidationTriggers() {
+    const fieldTriggers = { validateOn: toValue(opts.validateOn), revalidateOn: toValue(opts.revalidateOn) };
+
+    return form ? form.getValidationTriggers(fieldTriggers) : resolveValidationTriggers([fieldTriggers], false);
+  }
+
+  /**
+   * Validates the field if any of the given interactions is one of its validation triggers.
+   */
+  async function triggerValidation(...triggers: ValidationTrigger[]) {
+    const active = getValidationTriggers();
+    if (triggers.some(trigger => active.includes(trigger))) {
+      await updateValidity();
+    }
+  }
+
+  useEventListener(opts.inputEl, opts?.events || ['input', 'change', 'blur'], (e: Event) =>
+    triggerValidation(...toValidationTriggers(e)),
+  );
+  useDependentValidation(form, getPath, getDependencies, updateValidity);
 
   watch(opts.field.isDisabled, async () => {
     await nextTick();
@@ -129,18 +158,35 @@ export function useInputValidity(opts: InputValidityOptions) {
   }
 
   /**
-   * Validity is always updated on mount.
+   * Validity is updated on mount unless the form hydrates errors.
    */
   onMounted(() => {
-    nextTick(() => _updateValidity());
+    nextTick(() => {
+      // Hydrated errors are kept until the field validates again.
+      if (form?.isHydratingErrors()) {
+        return;
+      }
+
+      _updateValidity();
+    });
   });
 
   return {
     validityDetails,
     updateValidity,
+    triggerValidation,
   };
 }
 
+function toValidationTriggers(e: Event): ValidationTrigger[] {
+  if (e.type === 'input' || e.type === 'change' || e.type === 'blur') {
+    return [e.type];
+  }
+
+  // Custom events like clicks and key presses commit a value, natively that fires both an input and a change event.
+  return ['input', 'change'];
+}
+
 /**
  * Syncs the message with the input's native validation message.
  */
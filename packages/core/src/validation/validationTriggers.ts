@@ -0,0 +1,32 @@
+import { Arrayable, ValidationTrigger } from '../types';
+import { normalizeArrayable } from '../utils/common';
+import { getConfig } from '../config';
+
+export interface ValidationTriggerOptions {
+  /**
+   * The interactions that validate the field before the form is submitted.
+   */
+  validateOn?: Arrayable<ValidationTrigger>;
+  /**
+   * The interactions that validate the field after the form was submitted, defaults to `validateOn`.
+   */
+  revalidateOn?: Arrayable<ValidationTrigger>;
+}
+
+/**
+ * Resolves the active validation triggers, the first level that sets an option wins and the global config is the last resort.
+ */
+export function resolveValidationTriggers(
+  levels: (ValidationTriggerOptions | undefined)[],
+  isSubmitAttempted: boolean,
+): ValidationTrigger[] {
+  const config = getConfig();
+  const validateOn = levels.find(level => level?.validateOn)?.validateOn ?? config.validateOn;
+  if (!isSubmitAttempted) {
+    return normalizeArrayable(validateOn);
+  }
+
+  return normalizeArrayable(
+    levels.find(level => level?.revalidateOn)?.revalidateOn ?? config.revalidateOn ?? validateOn,
+  );
+}